@@ -0,0 +1,97 @@
+// In-memory stand-in for the images API on http://localhost:8080, for working on the UI without the real backend.
+//
+//   node scripts/mock-backend.mjs [port]
+//
+// Ground truth updates are versioned like the real API: a PUT carrying an `updated_at` (or If-Match header) that is
+// no longer the image's current one is rejected with 409. Data is lost when the process stops.
+
+import { createServer } from "node:http"
+
+const PORT = Number(process.argv[2] ?? 8080)
+const PREFIX = "/api/v1/images"
+
+const images = new Map()
+let nextId = 1
+
+function now() {
+  return new Date().toISOString()
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, If-Match",
+  })
+  res.end(body === undefined ? "" : JSON.stringify(body))
+}
+
+// Lets the Fetch API parse JSON and multipart bodies
+function toRequest(req) {
+  return new Request(`http://localhost${req.url}`, {
+    method: req.method,
+    headers: req.headers,
+    body: req,
+    duplex: "half",
+  })
+}
+
+async function upload(req, res) {
+  const form = await toRequest(req).formData()
+  const file = form.get("image")
+  if (!(file instanceof File)) return send(res, 400, { error: "image is required" })
+
+  const groundTruth = JSON.parse(form.get("ground_truth") ?? "{}")
+  const bytes = Buffer.from(await file.arrayBuffer())
+  const id = String(nextId++)
+  const image = {
+    id,
+    name: groundTruth.project_name ?? file.name.replace(/\.[^.]+$/, ""),
+    image_url: `data:${file.type || "image/png"};base64,${bytes.toString("base64")}`,
+    ground_truth: { elements: groundTruth.elements ?? [] },
+    created_at: now(),
+    updated_at: now(),
+  }
+  images.set(id, image)
+  send(res, 201, image)
+}
+
+async function updateGroundTruth(req, res, image) {
+  const body = await toRequest(req).json()
+  const expected = body.updated_at ?? req.headers["if-match"]?.replace(/"/g, "")
+  if (expected && expected !== image.updated_at) {
+    return send(res, 409, { error: "conflict", updated_at: image.updated_at })
+  }
+  image.ground_truth = { elements: body.ground_truth?.elements ?? [] }
+  image.updated_at = now()
+  send(res, 200, image)
+}
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204)
+
+  const path = new URL(req.url, "http://localhost").pathname.replace(/\/$/, "")
+  if (!path.startsWith(PREFIX)) return send(res, 404, { error: "not found" })
+  const [id, action, detail] = path.slice(PREFIX.length + 1).split("/")
+
+  try {
+    if (!id && req.method === "GET") return send(res, 200, [...images.values()])
+    if (id === "upload" && req.method === "POST") return await upload(req, res)
+
+    const image = images.get(id)
+    if (!image) return send(res, 404, { error: "image not found" })
+
+    if (!action && req.method === "GET") return send(res, 200, image)
+    if (!action && req.method === "DELETE") {
+      images.delete(id)
+      return send(res, 204)
+    }
+    if (action === "ground-truth" && req.method === "PUT") return await updateGroundTruth(req, res, image)
+    if (action === "predict" && detail === "model") return send(res, 200, { image_id: id, predicted_labels: {} })
+    if (action === "predict") return send(res, 202, { message: "Prediction queued" })
+    send(res, 404, { error: "not found" })
+  } catch (error) {
+    send(res, 400, { error: error instanceof Error ? error.message : String(error) })
+  }
+}).listen(PORT, () => console.log(`Mock images API on http://localhost:${PORT}${PREFIX}`))
@@ -2,135 +2,19 @@
 import { useState, useEffect, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { BarChart2, Trash2 } from "lucide-react"
+import { BarChart2, Layers, Trash2 } from "lucide-react"
 import { toast } from "sonner"
 import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from "recharts"
 import { AppHeader } from "@/components/header"
-
-// Re-using interfaces from app/main/page.tsx
-interface Annotation {
-  id: string
-  x: number
-  y: number
-  width: number
-  height: number
-  label: "Button" | "Input" | "Radio" | "Drop"
-}
-
-interface SavedProject {
-  id: string
-  name: string
-  image: string
-  annotations: Annotation[]
-  createdAt: string
-  updatedAt: string
-}
-
-interface Metrics {
-  total_ground_truth: number
-  true_positives: number
-  false_positives: number
-  false_negatives: number
-  precision: number
-  recall: number
-  f1_score: number
-}
-
-interface EvaluationResults {
-  [tag: string]: Metrics
-}
-
-// Helper function for IoU (Intersection over Union)
-function calculateIoU(
-  box1: { x: number; y: number; width: number; height: number },
-  box2: { x: number; y: number; width: number; height: number },
-): number {
-  const x_overlap = Math.max(0, Math.min(box1.x + box1.width, box2.x + box2.width) - Math.max(box1.x, box2.x))
-  const y_overlap = Math.max(0, Math.min(box1.y + box1.height, box2.y + box2.height) - Math.max(box1.y, box2.y))
-
-  const intersection_area = x_overlap * y_overlap
-  const box1_area = box1.width * box1.height
-  const box2_area = box2.width * box2.height
-  const union_area = box1_area + box2_area - intersection_area
-
-  return union_area === 0 ? 0 : intersection_area / union_area
-}
-
-// Function to evaluate a single image's annotations
-function evaluateSingleImage(
-  groundTruthAnnotations: Annotation[],
-  predictionAnnotations: Annotation[],
-  iouThreshold = 0.5,
-): EvaluationResults {
-  const labels = ["Button", "Input", "Radio", "Drop"] as const
-  const metrics: EvaluationResults = {}
-
-  labels.forEach((label) => {
-    metrics[label] = {
-      total_ground_truth: 0,
-      true_positives: 0,
-      false_positives: 0,
-      false_negatives: 0,
-      precision: 0,
-      recall: 0,
-      f1_score: 0,
-    }
-  })
-
-  const matchedPredIndices = new Set<number>()
-
-  for (const gtBox of groundTruthAnnotations) {
-    if (!metrics[gtBox.label]) continue;
-    metrics[gtBox.label].total_ground_truth++;
-    let bestIoU = 0;
-    let bestPredIndex = -1;
-
-    for (let i = 0; i < predictionAnnotations.length; i++) {
-      const predBox = predictionAnnotations[i];
-      if (predBox.label === gtBox.label && !matchedPredIndices.has(i)) {
-        const iou = calculateIoU(gtBox, predBox);
-        if (iou > bestIoU) {
-          bestIoU = iou;
-          bestPredIndex = i;
-        }
-      }
-    }
-
-    if (bestIoU >= iouThreshold) {
-      metrics[gtBox.label].true_positives++;
-      matchedPredIndices.add(bestPredIndex);
-    } else {
-      metrics[gtBox.label].false_negatives++;
-    }
-  }
-
-  for (let i = 0; i < predictionAnnotations.length; i++) {
-    if (!matchedPredIndices.has(i)) {
-      const predBox = predictionAnnotations[i];
-      if (!metrics[predBox.label]) continue;
-      metrics[predBox.label].false_positives++;
-    }
-  }
-
-  labels.forEach((label) => {
-    const tp = metrics[label].true_positives
-    const fp = metrics[label].false_positives
-    const fn = metrics[label].false_negatives
-
-    const precision = tp + fp === 0 ? 0 : tp / (tp + fp)
-    const recall = tp + fn === 0 ? 0 : tp / (tp + fn)
-    const f1_score = precision + recall === 0 ? 0 : (2 * (precision * recall)) / (precision + recall)
-
-    metrics[label].precision = precision
-    metrics[label].recall = recall
-    metrics[label].f1_score = f1_score
-  })
-
-  return metrics
-}
+import type { Annotation, SavedProject } from "@/lib/annotations"
+import { deleteTaxonomy, loadTaxonomy } from "@/lib/taxonomy"
+import { evaluateDataset, evaluateSingleImage, type EvaluationResults } from "@/lib/evaluation"
+import { assignProjectToDataset, getDatasetProgress, loadDatasets, saveDatasets, type Dataset } from "@/lib/datasets"
+import { DatasetProgressBar } from "@/components/dataset-filmstrip"
+import { deleteStoredProject, loadStoredProjects, migrateLegacyProjects } from "@/lib/project-store"
 
 // Mock LLM prediction generation (for demo purposes)
-function generateMockLLMPredictions(groundTruthAnnotations: Annotation[]): Annotation[] {
+function generateMockLLMPredictions(groundTruthAnnotations: Annotation[], labels: string[]): Annotation[] {
   const mockPredictions: Annotation[] = []
   groundTruthAnnotations.forEach((gt) => {
     // Simulate some correct predictions (slightly offset)
@@ -148,7 +32,7 @@ function generateMockLLMPredictions(groundTruthAnnotations: Annotation[]): Annot
     // Simulate some false positives (random new boxes)
     if (Math.random() < 0.1) {
       // 10% chance of a false positive
-      const randomLabel = ["Button", "Input", "Radio", "Drop"][Math.floor(Math.random() * 4)] as Annotation["label"]
+      const randomLabel = labels[Math.floor(Math.random() * labels.length)]
       mockPredictions.push({
         id: `fp-${Math.random().toString(36).substring(7)}`,
         x: Math.random() * 500,
@@ -164,20 +48,21 @@ function generateMockLLMPredictions(groundTruthAnnotations: Annotation[]): Annot
 
 export default function DashboardPage() {
   const [savedProjects, setSavedProjects] = useState<SavedProject[]>([])
-  const [selectedProjectResults, setSelectedProjectResults] = useState<{
-    project: SavedProject
+  const [datasets, setDatasets] = useState<Dataset[]>([])
+  // A single project or a whole dataset
+  const [selectedResults, setSelectedResults] = useState<{
+    id: string
+    name: string
+    imageCount: number
     results: EvaluationResults
   } | null>(null)
 
   useEffect(() => {
-    const saved = localStorage.getItem("ui-annotation-projects")
-    if (saved) {
-      try {
-        setSavedProjects(JSON.parse(saved))
-      } catch (error) {
-        console.error("Error loading saved projects:", error)
-      }
-    }
+    migrateLegacyProjects()
+      .then(loadStoredProjects)
+      .then(setSavedProjects)
+      .catch((error) => console.error("Error loading saved projects:", error))
+    setDatasets(loadDatasets())
   }, [])
 
   const handleEvaluateProject = useCallback((project: SavedProject) => {
@@ -186,38 +71,73 @@ export default function DashboardPage() {
       duration: 2000,
     })
 
+    // Metrics are reported for every label in the project's taxonomy
+    const labels = loadTaxonomy(project.id).map((def) => def.name)
+
     // Simulate LLM predictions for this specific project
-    const mockLLMPredictions = generateMockLLMPredictions(project.annotations)
+    const mockLLMPredictions = generateMockLLMPredictions(project.annotations, labels)
 
     // Run evaluation
-    const results = evaluateSingleImage(project.annotations, mockLLMPredictions)
+    const results = evaluateSingleImage(project.annotations, mockLLMPredictions, labels)
 
-    setSelectedProjectResults({ project, results })
+    setSelectedResults({ id: project.id, name: project.name, imageCount: 1, results })
     toast("Evaluation Complete", {
       description: `Results for "${project.name}" are ready.`,
       duration: 2000,
     })
   }, [])
 
+  // Every image of the dataset is evaluated and the counts are pooled, so images with more boxes weigh more
+  const handleEvaluateDataset = useCallback(
+    (dataset: Dataset) => {
+      const projects = dataset.projectIds
+        .map((id) => savedProjects.find((project) => project.id === id))
+        .filter((project): project is SavedProject => !!project)
+      if (projects.length === 0) {
+        toast("Nothing to evaluate", { description: `"${dataset.name}" has no saved images yet.` })
+        return
+      }
+
+      // Metrics are reported for every label used by any of the dataset's taxonomies
+      const labels = [...new Set(projects.flatMap((project) => loadTaxonomy(project.id).map((def) => def.name)))]
+
+      // Simulate LLM predictions for each image of the dataset
+      const images = projects.map((project) => ({
+        groundTruth: project.annotations,
+        predictions: generateMockLLMPredictions(project.annotations, labels),
+      }))
+
+      setSelectedResults({ id: dataset.id, name: dataset.name, imageCount: projects.length, results: evaluateDataset(images, labels) })
+      toast("Evaluation Complete", {
+        description: `Results for ${projects.length} images of "${dataset.name}" are ready.`,
+        duration: 2000,
+      })
+    },
+    [savedProjects],
+  )
+
   const handleDeleteProject = useCallback(
     (projectId: string) => {
-      setSavedProjects((prev) => {
-        const updatedProjects = prev.filter((p) => p.id !== projectId)
-        localStorage.setItem("ui-annotation-projects", JSON.stringify(updatedProjects))
-        return updatedProjects
+      setSavedProjects((prev) => prev.filter((p) => p.id !== projectId))
+      deleteStoredProject(projectId).catch((error) => console.error("Error deleting project:", error))
+      deleteTaxonomy(projectId)
+      setDatasets((prev) => {
+        const updatedDatasets = assignProjectToDataset(prev, projectId, null)
+        saveDatasets(updatedDatasets)
+        return updatedDatasets
       })
-      if (selectedProjectResults?.project.id === projectId) {
-        setSelectedProjectResults(null)
+      if (selectedResults?.id === projectId) {
+        setSelectedResults(null)
       }
       toast("Project Deleted", {
         description: "Project removed successfully.",
       })
     },
-    [selectedProjectResults],
+    [selectedResults],
   )
 
-  const chartData = selectedProjectResults
-    ? Object.entries(selectedProjectResults.results).map(([label, metrics]) => ({
+  const chartData = selectedResults
+    ? Object.entries(selectedResults.results).map(([label, metrics]) => ({
         name: label,
         Precision: metrics.precision,
         Recall: metrics.recall,
@@ -233,6 +153,33 @@ export default function DashboardPage() {
         {/* Phần nội dung còn lại */}
         {/* Left Panel: Project List */}
         <div className="w-full md:w-1/3 lg:w-1/4 border-r bg-background dark:bg-gray-900 p-4 overflow-y-auto shadow-md">
+          {datasets.length > 0 && (
+            <>
+              <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-gray-100">Datasets</h2>
+              <div className="space-y-3 mb-8">
+                {datasets.map((dataset) => (
+                  <Card
+                    key={dataset.id}
+                    className={`p-3 cursor-pointer transition-all duration-200 ease-in-out hover:bg-muted/50 dark:hover:bg-gray-800 ${
+                      selectedResults?.id === dataset.id ? "border-primary ring-2 ring-primary shadow-lg" : "border-transparent"
+                    }`}
+                    onClick={() => handleEvaluateDataset(dataset)}
+                  >
+                    <div className="flex items-center gap-3">
+                      <Layers className="h-8 w-8 shrink-0 text-muted-foreground" />
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <h4 className="font-semibold truncate text-gray-900 dark:text-gray-50">{dataset.name}</h4>
+                        <p className="text-sm text-muted-foreground">
+                          {dataset.projectIds.length} image{dataset.projectIds.length !== 1 ? "s" : ""}
+                        </p>
+                        <DatasetProgressBar progress={getDatasetProgress(dataset, savedProjects)} showCounts={false} />
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            </>
+          )}
           <h2 className="text-2xl font-bold mb-6 text-gray-800 dark:text-gray-100">Your Projects</h2>
           {savedProjects.length === 0 ? (
             <p className="text-muted-foreground text-sm p-4 text-center border border-dashed rounded-lg">
@@ -245,7 +192,7 @@ export default function DashboardPage() {
                 <Card
                   key={project.id}
                   className={`p-3 cursor-pointer transition-all duration-200 ease-in-out hover:bg-muted/50 dark:hover:bg-gray-800 ${
-                    selectedProjectResults?.project.id === project.id
+                    selectedResults?.id === project.id
                       ? "border-primary ring-2 ring-primary shadow-lg"
                       : "border-transparent"
                   }`}
@@ -286,22 +233,27 @@ export default function DashboardPage() {
 
         {/* Right Panel: Evaluation Report */}
         <div className="flex-1 p-6 overflow-y-auto bg-gray-100 dark:bg-gray-950">
-          {!selectedProjectResults ? (
+          {!selectedResults ? (
             <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
               <BarChart2 className="h-20 w-20 mb-6 text-gray-400 dark:text-gray-600" />
               <h3 className="text-2xl font-semibold text-gray-700 dark:text-gray-200">
                 Select a Project to View Evaluation
               </h3>
               <p className="text-base mt-2 max-w-md">
-                Click on any project from the left panel to see its LLM prediction performance metrics and detailed
-                reports.
+                Click on any dataset or project from the left panel to see its LLM prediction performance metrics
+                and detailed reports.
               </p>
             </div>
           ) : (
             <div className="space-y-8 max-w-4xl mx-auto">
               <h2 className="text-4xl font-extrabold text-center text-gray-900 dark:text-gray-50 mb-8">
-                Evaluation Report for "{selectedProjectResults.project.name}"
+                Evaluation Report for "{selectedResults.name}"
               </h2>
+              {selectedResults.imageCount > 1 && (
+                <p className="text-center text-muted-foreground -mt-6">
+                  Pooled over {selectedResults.imageCount} images
+                </p>
+              )}
 
               {/* Summary Metrics */}
               <Card className="shadow-lg border-t-4 border-primary-foreground dark:border-primary-foreground/50">
@@ -409,7 +361,7 @@ export default function DashboardPage() {
                         </tr>
                       </thead>
                       <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
-                        {Object.entries(selectedProjectResults.results).map(([label, metrics]) => (
+                        {Object.entries(selectedResults.results).map(([label, metrics]) => (
                           <tr key={label} className="hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-50">
                               {label}
@@ -2,8 +2,8 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback, useEffect } from "react"
-import { Upload, Save, Trash2, Zap, Menu, FolderOpen, Eye, Plus } from "lucide-react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
+import { Upload, Save, Trash2, Zap, Menu, FolderOpen, Eye, Plus, Undo2, Redo2, ZoomIn, ZoomOut, Maximize, Tags, Wand2, Shrink, ScanSearch, X, Grid3x3, Keyboard, Columns2, Layers, RefreshCw } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
@@ -22,84 +22,388 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
 import { AppHeader } from "@/components/header"
+import { cn } from "@/lib/utils"
+import { loadImageData, proposeBoxAt, tightenBox } from "@/lib/pixel-analysis"
+import { calculateIoU } from "@/lib/evaluation"
+import type { RegionProposalRequest, RegionProposalResponse } from "@/workers/region-proposals.worker"
+import { TaxonomyDialog } from "@/components/taxonomy-dialog"
+import { AttributePanel } from "@/components/attribute-panel"
+import { GridDuplicateDialog, type GridDuplicateOptions } from "@/components/grid-duplicate-dialog"
+import { SelectionPanel } from "@/components/selection-panel"
+import { PredictionLayerControls, type PredictionLayerState } from "@/components/prediction-layer-controls"
+import { PredictionReviewPanel } from "@/components/prediction-review-panel"
+import { ComparisonView } from "@/components/comparison-view"
+import { BatchUploadDialog } from "@/components/batch-upload-dialog"
+import { isImageFile, readPendingImages, screenshotName, type PendingImage } from "@/lib/image-intake"
+import { DatasetFilmstrip, DatasetProgressBar } from "@/components/dataset-filmstrip"
+import { describeChanges, diffSnapshot, hasChanges, sameAttributes, type ProjectSnapshot } from "@/lib/project-changes"
+import {
+  deleteDraft,
+  formatTimeAgo,
+  getLatestDraft,
+  loadStoredProjects,
+  migrateLegacyProjects,
+  saveStoredProjects,
+  type Draft,
+} from "@/lib/project-store"
+import { useDraftAutosave } from "@/hooks/use-draft-autosave"
+import { useOutbox } from "@/hooks/use-outbox"
+import { getSyncStatus } from "@/lib/outbox"
+import {
+  ApiError,
+  fetchImage,
+  fetchImages,
+  fetchModelPredictions,
+  getErrorMessage,
+  startPrediction,
+  uploadImage,
+  type ImageRecord,
+  type UploadGroundTruth,
+} from "@/lib/api-client"
+import { SyncBadge } from "@/components/sync-badge"
+import { applyMerge, findMergeItems, type MergeItem, type MergeSide } from "@/lib/annotation-merge"
+import { MergeConflictDialog } from "@/components/merge-conflict-dialog"
+import { describeCompletion, predictStreamUrl, type PredictStreamEvent } from "@/lib/predict-stream"
+import {
+  assignProjectToDataset,
+  createDataset,
+  findDatasetOfProject,
+  findNextUnlabeled,
+  getAdjacentProjectId,
+  getDatasetProgress,
+  loadDatasets,
+  renameProjectInDatasets,
+  saveDatasets,
+  setProjectReviewed,
+  type Dataset,
+} from "@/lib/datasets"
+import { predictionToAnnotations, type PredictedLabels } from "@/lib/predictions"
+import { useCommandHistory } from "@/hooks/use-command-history"
+import { useShortcuts } from "@/hooks/use-shortcuts"
+import { ShortcutsDialog } from "@/components/shortcuts-dialog"
+import {
+  eventToCombo,
+  getDefaultBindings,
+  loadShortcutBindings,
+  NATIVE_PASTE_COMBO,
+  saveShortcutBindings,
+  shortcutHint,
+  type ShortcutBindings,
+} from "@/lib/shortcuts"
+import {
+  cleanAttributes,
+  findContainerAt,
+  flattenAnnotationTree,
+  fromGroundTruthElement,
+  cloneAnnotations,
+  collectSubtrees,
+  createAnnotationId,
+  getBoundingBox,
+  getDescendantIds,
+  removeAnnotation,
+  removeAnnotations,
+  type Annotation,
+  type ElementAttributes,
+  type SavedProject,
+} from "@/lib/annotations"
+import {
+  DEFAULT_TAXONOMY,
+  deleteTaxonomy,
+  ensureTypes,
+  findLabel,
+  findLabelByType,
+  getLabelColor,
+  isContainerLabel,
+  labelStripes,
+  fromGroundTruthElements,
+  loadTaxonomy,
+  moveTaxonomy,
+  saveTaxonomy,
+  toGroundTruthElements,
+  type Taxonomy,
+} from "@/lib/taxonomy"
+import { clampZoom, zoomAround, ZOOM_STEP, type ViewTransform } from "@/lib/view-transform"
 
-interface Annotation {
-  id: string
+interface Point {
   x: number
   y: number
-  width: number
-  height: number
-  label: "Button" | "Input" | "Radio" | "Drop"
 }
 
-interface Point {
+interface Box {
   x: number
   y: number
+  width: number
+  height: number
 }
 
-interface SavedProject {
+// Unlabeled box found by whole-image region proposals, waiting to be accepted or dismissed
+interface Candidate extends Box {
   id: string
-  name: string
-  image: string
-  annotations: Annotation[]
-  createdAt: string
-  updatedAt: string
 }
 
-const LABEL_COLORS = {
-  Button: "border-blue-500",
-  Input: "border-green-500",
-  Radio: "border-purple-500",
-  Drop: "border-orange-500",
+interface Size {
+  width: number
+  height: number
+}
+
+interface PanState {
+  origin: Point
+  initialPan: Point
+}
+
+// "draw" drags out boxes by hand, "magic" proposes a box around the element that was clicked
+type Tool = "draw" | "magic"
+
+type ResizeHandle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w"
+
+interface DragState {
+  mode: "move" | "resize"
+  annotationId: string
+  handle?: ResizeHandle
+  origin: Point
+  // The dragged box when resizing; when moving, the bounds of everything that moves (kept inside the image)
+  initialBox: Box
+  // Boxes shifted by a move: the selection plus the children of selected containers
+  movedIds: Set<string>
+  // Annotations as they were before the gesture, recorded as one history command on release
+  snapshot: Annotation[]
+}
+
+// Stepping through one model's predicted boxes, deciding for each whether it becomes ground truth
+interface ReviewState {
+  model: string
+  // Index of the box under review in the model's predictions
+  index: number
+  decisions: Record<string, "accepted" | "rejected">
+}
+
+// Shift + drag on empty canvas selects every box inside the dragged rectangle
+interface MarqueeState {
+  origin: Point
+  box: Box
+  // Selection when the drag started; the marquee adds to it
+  initialSelection: string[]
+}
+
+// Smallest box (in screen px) that can be drawn or resized to
+const MIN_BOX_SIZE = 10
+
+// Distance (image px) between a pasted copy and the previous paste
+const PASTE_OFFSET = 10
+
+// Space left around the image when fitting it to the canvas
+const FIT_PADDING = 32
+
+const RESIZE_HANDLES: { handle: ResizeHandle; style: React.CSSProperties; cursor: string }[] = [
+  { handle: "nw", style: { left: 0, top: 0 }, cursor: "nwse-resize" },
+  { handle: "n", style: { left: "50%", top: 0 }, cursor: "ns-resize" },
+  { handle: "ne", style: { left: "100%", top: 0 }, cursor: "nesw-resize" },
+  { handle: "e", style: { left: "100%", top: "50%" }, cursor: "ew-resize" },
+  { handle: "se", style: { left: "100%", top: "100%" }, cursor: "nwse-resize" },
+  { handle: "s", style: { left: "50%", top: "100%" }, cursor: "ns-resize" },
+  { handle: "sw", style: { left: 0, top: "100%" }, cursor: "nesw-resize" },
+  { handle: "w", style: { left: 0, top: "50%" }, cursor: "ew-resize" },
+]
+
+// Convert a box in image pixels to its position on the canvas
+function imageToScreen(box: Box, view: ViewTransform): Box {
+  return {
+    x: view.pan.x + box.x * view.zoom,
+    y: view.pan.y + box.y * view.zoom,
+    width: box.width * view.zoom,
+    height: box.height * view.zoom,
+  }
 }
 
-const LABEL_BG_COLORS = {
-  Button: "bg-blue-500",
-  Input: "bg-green-500",
-  Radio: "bg-purple-500",
-  Drop: "bg-orange-500",
+// Keep a box fully inside the image without changing its size (unless it is larger than the image)
+function clampBox(box: Box, bounds: Size): Box {
+  const width = Math.min(box.width, bounds.width)
+  const height = Math.min(box.height, bounds.height)
+  return {
+    x: Math.min(Math.max(0, box.x), bounds.width - width),
+    y: Math.min(Math.max(0, box.y), bounds.height - height),
+    width,
+    height,
+  }
 }
 
-const LABEL_VARIANTS = {
-  Button: "default",
-  Input: "secondary",
-  Radio: "outline",
-  Drop: "destructive",
-} as const
+// Drag one edge/corner of a box by (dx, dy), never letting it collapse below minSize
+function resizeBox(box: Box, handle: ResizeHandle, dx: number, dy: number, bounds: Size, minSize: number): Box {
+  let left = box.x
+  let top = box.y
+  let right = box.x + box.width
+  let bottom = box.y + box.height
+
+  if (handle.includes("w")) left = Math.max(0, Math.min(left + dx, right - minSize))
+  if (handle.includes("e")) right = Math.min(bounds.width, Math.max(right + dx, left + minSize))
+  if (handle.includes("n")) top = Math.max(0, Math.min(top + dy, bottom - minSize))
+  if (handle.includes("s")) bottom = Math.min(bounds.height, Math.max(bottom + dy, top + minSize))
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
 
 export default function UIAnnotationApp() {
   const router = useRouter()
   const [image, setImage] = useState<string | null>(null)
   const [currentProjectName, setCurrentProjectName] = useState<string>("")
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null)
-  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const {
+    value: annotations,
+    execute: executeAnnotations,
+    preview: previewAnnotations,
+    commit: commitAnnotations,
+    reset: resetAnnotations,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useCommandHistory<Annotation[]>([])
   const [isDrawing, setIsDrawing] = useState(false)
   const [startPoint, setStartPoint] = useState<Point | null>(null)
-  const [currentBox, setCurrentBox] = useState<Omit<Annotation, "id" | "label"> | null>(null)
-  const [selectedLabel, setSelectedLabel] = useState<Annotation["label"]>("Button")
-  const [selectedAnnotation, setSelectedAnnotation] = useState<string | null>(null)
+  const [currentBox, setCurrentBox] = useState<Box | null>(null)
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY)
+  const [isTaxonomyOpen, setIsTaxonomyOpen] = useState(false)
+  const [selectedLabel, setSelectedLabel] = useState<string>(DEFAULT_TAXONOMY[0].name)
+  // Selected boxes in the order they were picked; the last one is the primary selection
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [marquee, setMarquee] = useState<MarqueeState | null>(null)
+  const [isGridDialogOpen, setIsGridDialogOpen] = useState(false)
+  const [shortcutBindings, setShortcutBindings] = useState<ShortcutBindings>(getDefaultBindings)
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false)
+  const [dragState, setDragState] = useState<DragState | null>(null)
+  const [draggedRowId, setDraggedRowId] = useState<string | null>(null)
+  const [tool, setTool] = useState<Tool>("draw")
+  const [magicProposal, setMagicProposal] = useState<Box | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [candidates, setCandidates] = useState<Candidate[]>([])
+  const [activeCandidateId, setActiveCandidateId] = useState<string | null>(null)
+  const [isFindingRegions, setIsFindingRegions] = useState(false)
+  const [loadedImage, setLoadedImage] = useState<{ src: string; size: Size } | null>(null)
+  const [view, setView] = useState<ViewTransform>({ zoom: 1, pan: { x: 0, y: 0 } })
+  const [panState, setPanState] = useState<PanState | null>(null)
+  const [isSpacePressed, setIsSpacePressed] = useState(false)
   const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false)
   const [isProjectsOpen, setIsProjectsOpen] = useState(false)
   const [isNameDialogOpen, setIsNameDialogOpen] = useState(false)
   const [isUnsavedChangesDialogOpen, setIsUnsavedChangesDialogOpen] = useState(false)
-  const [pendingNavigation, setPendingNavigation] = useState<string | null>(null)
+  // Where to go once the unsaved changes dialog is answered: another page, or what replaces the open project
+  // (another image of the list, a new project)
+  const [pendingNavigation, setPendingNavigation] = useState<
+    { kind: "url"; href: string } | { kind: "replace"; replace: () => void } | null
+  >(null)
   const [projectName, setProjectName] = useState("")
   const [savedProjects, setSavedProjects] = useState<SavedProject[]>([])
   const [pendingImageFile, setPendingImageFile] = useState<string | null>(null)
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  // Several images picked, dropped or pasted at once: one project each
+  const [pendingBatch, setPendingBatch] = useState<PendingImage[]>([])
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const [datasets, setDatasets] = useState<Dataset[]>([])
+  const [newDatasetName, setNewDatasetName] = useState("")
+  // Last loaded or saved state of the open project; null while a new project was never saved
+  const [savedSnapshot, setSavedSnapshot] = useState<ProjectSnapshot | null>(null)
+  // `updated_at` of the open project's ground truth on the server, sent with Update to detect concurrent edits
+  const [serverVersion, setServerVersion] = useState<string | null>(null)
+  // Update was rejected because the ground truth changed on the server; `theirs` is the server's version
+  const [mergeConflict, setMergeConflict] = useState<{
+    theirs: Annotation[]
+    version: string | null
+    items: MergeItem[]
+  } | null>(null)
+  // Draft left behind by a previous visit, offered for restore
+  const [recoverableDraft, setRecoverableDraft] = useState<Draft | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [isLoadingProjects, setIsLoadingProjects] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
-  const [predictResults, setPredictResults] = useState<Record<string, any>>({});
+  // Latest `predicted_labels` per project id
+  const [predictResults, setPredictResults] = useState<Record<string, PredictedLabels>>({});
+  // Models currently running on the open image, with their progress from 0 to 1 once reported
+  const [runningPredictions, setRunningPredictions] = useState<Record<string, number | null>>({})
+  const [predictionLayer, setPredictionLayer] = useState<PredictionLayerState>({ visible: true, model: null, opacity: 0.8 })
+  const [review, setReview] = useState<ReviewState | null>(null)
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false)
   const [expandedProject, setExpandedProject] = useState<string | null>(null);
 
   const imageRef = useRef<HTMLImageElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // The project list is only written back to IndexedDB once it was loaded, so the initial [] never replaces it
+  const projectsLoadedRef = useRef(false)
+  // Copied boxes (with their children) and how many times they were pasted, to offset each paste further
+  const clipboardRef = useRef<{ annotations: Annotation[]; pasteCount: number } | null>(null)
+
+  // Resize handles, attributes and tighten work on a single box
+  const selectedAnnotation = selectedIds.length === 1 ? selectedIds[0] : null
+  const selectAnnotation = useCallback((id: string | null) => setSelectedIds(id ? [id] : []), [])
+  const toggleSelection = useCallback((id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]))
+  }, [])
+
+  // Datasets are kept in the browser and reference projects by id
+  useEffect(() => {
+    setDatasets(loadDatasets())
+  }, [])
+
+  const updateDatasets = useCallback((updater: (prev: Dataset[]) => Dataset[]) => {
+    setDatasets((prev) => {
+      const next = updater(prev)
+      saveDatasets(next)
+      return next
+    })
+  }, [])
+
+  // Queued uploads, ground truth updates and deletes for when the backend is unreachable
+  const {
+    entries: outboxEntries,
+    isSyncing,
+    enqueue: enqueueSync,
+    discard: discardSync,
+    takeConflict,
+    submit: submitToBackend,
+    syncNow: replayOutbox,
+    isPendingDelete,
+  } = useOutbox({
+    // Same as a successful Save: the project now points at the uploaded image
+    onSent: (entry, result) => {
+      // A queued update moved the server's version on
+      if (entry.kind === "updateGroundTruth") {
+        if (entry.projectId === currentProjectId) setServerVersion(result?.updated_at ?? null)
+        return
+      }
+      if (entry.kind !== "upload" || !result) return
+      adoptServerRecord(entry.projectId, result)
+      toast("Queued upload sent", { description: "A project saved while offline has been uploaded to the server." })
+    },
+    // Someone else saved the image while the update was queued: it has to be merged, now or when it is next opened
+    onConflict: (entry) => {
+      if (entry.projectId === currentProjectId) {
+        mergeQueuedUpdate(entry.projectId)
+        return
+      }
+      const name = savedProjects.find((project) => project.id === entry.projectId)?.name ?? "A project"
+      toast("Queued update needs merging", {
+        description: `"${name}" was changed on the server in the meantime. Open it to merge your changes.`,
+      })
+    },
+  })
+  const pendingSyncCount = outboxEntries.length
+
+  // Load saved projects from API on mount; projects kept in localStorage by older versions move to IndexedDB first
+  useEffect(() => {
+    migrateLegacyProjects()
+      .then((count) => {
+        if (count > 0) toast("Projects migrated", { description: `Moved ${count} saved projects to the browser database.` })
+      })
+      .catch((error) => console.error("Error migrating projects:", error))
+      .finally(() => fetchProjectsFromAPI())
+  }, [])
 
-  // Load saved projects from API on mount
+  // Offer to restore work that was never saved, e.g. after a crash or a closed tab
   useEffect(() => {
-    fetchProjectsFromAPI()
+    getLatestDraft()
+      .then(setRecoverableDraft)
+      .catch((error) => console.error("Error loading draft:", error))
   }, [])
 
   // Function to fetch projects from API
@@ -107,30 +411,31 @@ export default function UIAnnotationApp() {
     try {
       setIsLoadingProjects(true)
       
-      const response = await fetch('http://localhost:8080/api/v1/images/', {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch projects: ${response.status}`)
-      }
-
-      const data = await response.json()
+      const data = await fetchImages()
       
       // Transform API data to match our SavedProject interface
-      const transformedProjects: SavedProject[] = data.map((item: any) => ({
-        id: item.id,
-        name: item.name,
-        image: item.image_url, // Use MinIO URL from API
-        annotations: item.ground_truth?.elements || [], // lấy đúng số annotation thực tế
-        createdAt: item.created_at,
-        updatedAt: item.updated_at,
-      }))
+      const transformedProjects: SavedProject[] = data.map((item) => {
+        // Labelled with the project's taxonomy, as when it is opened
+        const projectTaxonomy = loadTaxonomy(item.id)
+        return {
+          id: item.id,
+          name: item.name,
+          image: item.image_url, // Use MinIO URL from API
+          annotations: (item.ground_truth?.elements || []).map((el, idx) => // lấy đúng số annotation thực tế
+            fromGroundTruthElement(el, idx, findLabelByType(projectTaxonomy, el.type)?.name ?? el.type)
+          ),
+          createdAt: item.created_at,
+          updatedAt: item.updated_at,
+        }
+      })
 
-      setSavedProjects(transformedProjects)
+      // Projects created in this browser and never uploaded stay in the list next to the server's
+      const stored = await loadStoredProjects().catch(() => [])
+      const localOnly = stored.filter(
+        (project) => project.image.startsWith("data:") && !transformedProjects.some((p) => p.id === project.id),
+      )
+      // Deletes still waiting in the outbox are already gone here
+      setSavedProjects([...transformedProjects, ...localOnly].filter((project) => !isPendingDelete(project.id)))
       
       toast("Projects loaded", {
         description: `Loaded ${transformedProjects.length} projects from server.`,
@@ -141,44 +446,160 @@ export default function UIAnnotationApp() {
         description: error instanceof Error ? error.message : "Could not load projects from server",
       })
       
-      // Fallback to localStorage if API fails
-      const saved = localStorage.getItem("ui-annotation-projects")
-      if (saved) {
-        try {
-          setSavedProjects(JSON.parse(saved))
-        } catch (localError) {
-          console.error("Error loading from localStorage:", localError)
-        }
+      // Fallback to the browser's copy if API fails
+      try {
+        setSavedProjects(await loadStoredProjects())
+      } catch (localError) {
+        console.error("Error loading stored projects:", localError)
       }
     } finally {
+      projectsLoadedRef.current = true
       setIsLoadingProjects(false)
     }
-  }, [])
+  }, [isPendingDelete])
+
+  const syncNow = useCallback(async () => {
+    const summary = await replayOutbox()
+    if (!summary) return
+    if (summary.sent > 0) fetchProjectsFromAPI()
+    toast(summary.remaining === 0 ? "Everything is synced" : "Sync incomplete", {
+      description:
+        summary.remaining === 0
+          ? `${summary.sent} queued change${summary.sent !== 1 ? "s" : ""} sent to the server.`
+          : `${summary.sent} sent, ${summary.remaining} still waiting for the server.`,
+    })
+  }, [replayOutbox, fetchProjectsFromAPI])
 
-  // Save projects to localStorage whenever savedProjects changes
+  // Deletes on the server, or queues the delete while it is unreachable. Projects never uploaded are only removed here.
+  // Save projects to IndexedDB whenever savedProjects changes
   useEffect(() => {
-    localStorage.setItem("ui-annotation-projects", JSON.stringify(savedProjects))
+    if (!projectsLoadedRef.current) return
+    saveStoredProjects(savedProjects).catch((error) => console.error("Error storing projects:", error))
   }, [savedProjects])
 
-  // Track unsaved changes
-  useEffect(() => {
-    // Set hasUnsavedChanges to true if there's an image with project name but no annotations
-    if (image && currentProjectName && annotations.length === 0) {
-      setHasUnsavedChanges(true)
-      console.log("Has unsaved changes: true", { image: !!image, projectName: currentProjectName, annotationsCount: annotations.length })
-    } else {
-      setHasUnsavedChanges(false)
-      console.log("Has unsaved changes: false", { image: !!image, projectName: currentProjectName, annotationsCount: annotations.length })
+  // Track unsaved changes against the last loaded or saved snapshot
+  const unsavedChanges = useMemo(
+    () => (image && currentProjectName ? diffSnapshot(savedSnapshot, { name: currentProjectName, annotations }) : null),
+    [image, currentProjectName, annotations, savedSnapshot],
+  )
+  const hasUnsavedChanges = !!unsavedChanges && hasChanges(unsavedChanges)
+  const markSaved = useCallback((name: string, savedAnnotations: Annotation[]) => {
+    setSavedSnapshot({ name, annotations: savedAnnotations })
+  }, [])
+
+  // Anything that replaces the open project loses its unsaved changes, so it waits for the Save / Discard dialog
+  const replaceProject = useCallback(
+    (replace: () => void) => {
+      if (!hasUnsavedChanges) {
+        replace()
+        return
+      }
+      setPendingNavigation({ kind: "replace", replace })
+      setIsUnsavedChangesDialogOpen(true)
+    },
+    [hasUnsavedChanges],
+  )
+
+  // Autosave unsaved work as a draft; it is dropped again once the project is saved
+  const draft = useMemo(
+    () =>
+      hasUnsavedChanges && image && currentProjectId
+        ? { projectId: currentProjectId, name: currentProjectName, image, annotations, baseline: savedSnapshot }
+        : null,
+    [hasUnsavedChanges, image, currentProjectId, currentProjectName, annotations, savedSnapshot],
+  )
+  const { lastSavedAt: draftSavedAt, discard: dropDraft } = useDraftAutosave(currentProjectId, draft)
+
+  // An uploaded project goes by the server's id from then on, so later updates and deletes reach the right image
+  const adoptServerRecord = useCallback(
+    (localId: string, record: ImageRecord) => {
+      setSavedProjects((prev) =>
+        prev.map((project) =>
+          project.id === localId ? { ...project, id: record.id, image: record.image_url } : project,
+        ),
+      )
+      if (record.id === localId) return
+      updateDatasets((prev) => renameProjectInDatasets(prev, localId, record.id))
+      moveTaxonomy(localId, record.id)
+      if (localId === currentProjectId) {
+        setCurrentProjectId(record.id)
+        setServerVersion(record.updated_at ?? null)
+        // Autosave writes the draft again under the new id
+        dropDraft(localId)
+      }
+    },
+    [currentProjectId, updateDatasets, dropDraft],
+  )
+
+  const removeProject = useCallback(async (project: SavedProject) => {
+    try {
+      const isLocalOnly = project.image.startsWith("data:")
+      const outcome = isLocalOnly ? null : await submitToBackend(project.id, { kind: "delete" })
+      if (isLocalOnly) discardSync(project.id)
+      deleteTaxonomy(project.id)
+      updateDatasets((prev) => assignProjectToDataset(prev, project.id, null))
+      setSavedProjects((prev) => prev.filter((p) => p.id !== project.id))
+      // Nothing left for a later Save or autosave to bring back
+      if (project.id === currentProjectId) {
+        dropDraft(project.id)
+        setImage(null)
+        setCurrentProjectName("")
+        setCurrentProjectId(null)
+        setServerVersion(null)
+        resetAnnotations([])
+        setSavedSnapshot(null)
+        selectAnnotation(null)
+      }
+      toast('Project deleted', {
+        description:
+          outcome?.status === "queued"
+            ? 'The server is unreachable; the delete will be sent when it is back.'
+            : 'Project has been deleted successfully.',
+      })
+      if (outcome?.status === "sent") await fetchProjectsFromAPI()
+    } catch (err) {
+      toast('Delete failed', { description: err instanceof Error ? err.message : 'Unknown error' })
     }
-  }, [image, currentProjectName, annotations])
+  }, [
+    submitToBackend,
+    discardSync,
+    updateDatasets,
+    fetchProjectsFromAPI,
+    currentProjectId,
+    dropDraft,
+    resetAnnotations,
+    selectAnnotation,
+  ])
+
+  const restoreDraft = useCallback(() => {
+    if (!recoverableDraft) return
+    const projectTaxonomy = loadTaxonomy(recoverableDraft.projectId)
+    setImage(recoverableDraft.image)
+    setCurrentProjectName(recoverableDraft.name)
+    setCurrentProjectId(recoverableDraft.projectId)
+    setTaxonomy(projectTaxonomy)
+    setSelectedLabel(projectTaxonomy[0].name)
+    resetAnnotations(recoverableDraft.annotations)
+    setSavedSnapshot(recoverableDraft.baseline)
+    setRecoverableDraft(null)
+    toast("Unsaved work restored", { description: `"${recoverableDraft.name}" is back as you left it. Save it to keep it.` })
+  }, [recoverableDraft, resetAnnotations])
+
+  const discardDraft = useCallback(() => {
+    if (!recoverableDraft) return
+    deleteDraft(recoverableDraft.projectId).catch((error) => console.error("Error deleting draft:", error))
+    setRecoverableDraft(null)
+  }, [recoverableDraft])
 
   // Add beforeunload event listener
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (hasUnsavedChanges) {
+      if (hasUnsavedChanges && unsavedChanges) {
+        // Browsers show their own wording, but some still use the returned text
+        const message = `"${currentProjectName}" has unsaved changes: ${describeChanges(unsavedChanges)}.`
         e.preventDefault()
-        e.returnValue = "You haven't labeled anything yet. Do you want to save this project? If yes, it will be saved with empty annotations."
-        return "You haven't labeled anything yet. Do you want to save this project? If yes, it will be saved with empty annotations."
+        e.returnValue = message
+        return message
       }
     }
 
@@ -186,39 +607,40 @@ export default function UIAnnotationApp() {
     return () => {
       window.removeEventListener("beforeunload", handleBeforeUnload)
     }
-  }, [hasUnsavedChanges])
+  }, [hasUnsavedChanges, unsavedChanges, currentProjectName])
 
   // Handle navigation with unsaved changes
   useEffect(() => {
     const handleBeforeNavigate = () => {
-      if (hasUnsavedChanges) {
+      if (hasUnsavedChanges && unsavedChanges) {
         // For browser back/forward, we'll use the simple confirm
         // since we can't show custom dialog during page unload
-        const confirmed = window.confirm("You haven't labeled anything yet. Do you want to save this project? If yes, it will be saved with empty annotations.")
+        const confirmed = window.confirm(
+          `"${currentProjectName}" has unsaved changes: ${describeChanges(unsavedChanges)}.\n\nPress OK to save them in this browser, or Cancel to discard them.`,
+        )
         if (confirmed) {
-          // Auto-save the project with empty annotations
+          // Keep the work in this browser; it can be uploaded from the Projects panel later
           if (image && currentProjectName && currentProjectId) {
             const projectData: SavedProject = {
               id: currentProjectId,
               name: currentProjectName,
               image,
-              annotations: [],
+              annotations,
               createdAt: new Date().toISOString(),
               updatedAt: new Date().toISOString(),
             }
 
-            // Save to localStorage directly since we can't update state during unload
-            const saved = localStorage.getItem("ui-annotation-projects")
-            const projects = saved ? JSON.parse(saved) : []
-            const existingIndex = projects.findIndex((p: SavedProject) => p.id === currentProjectId)
-            
-            if (existingIndex >= 0) {
-              projects[existingIndex] = { ...projectData, createdAt: projects[existingIndex].createdAt }
-            } else {
-              projects.push(projectData)
-            }
-            
-            localStorage.setItem("ui-annotation-projects", JSON.stringify(projects))
+            // The page stays loaded on back/forward, so the list (and with it IndexedDB) can be updated as usual
+            setSavedProjects((prev) => {
+              const existingIndex = prev.findIndex((p) => p.id === currentProjectId)
+              if (existingIndex >= 0) {
+                const updated = [...prev]
+                updated[existingIndex] = { ...projectData, createdAt: prev[existingIndex].createdAt }
+                return updated
+              }
+              return [...prev, projectData]
+            })
+            setSavedSnapshot({ name: currentProjectName, annotations })
           }
         }
       }
@@ -230,27 +652,101 @@ export default function UIAnnotationApp() {
     return () => {
       window.removeEventListener("popstate", handleBeforeNavigate)
     }
-  }, [hasUnsavedChanges, image, currentProjectName, currentProjectId])
-
-  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        const imageData = e.target?.result as string
-        setPendingImageFile(imageData)
+  }, [hasUnsavedChanges, unsavedChanges, image, currentProjectName, currentProjectId, annotations])
+
+  // A single image goes through the name dialog (prefilled from its file name), several at once through the batch dialog
+  const intakeImages = useCallback(async (files: File[], nameOf?: (file: File) => string) => {
+    if (!files.some(isImageFile)) {
+      toast("No images found", { description: "Only image files can be used to create a project." })
+      return
+    }
+
+    try {
+      const pending = await readPendingImages(files, nameOf)
+      if (pending.length === 1) {
+        setPendingImageFile(pending[0].image)
+        setProjectName(pending[0].name)
         setIsNameDialogOpen(true)
+      } else {
+        setPendingBatch(pending)
       }
-      reader.readAsDataURL(file)
+    } catch (error) {
+      console.error("Error reading images:", error)
+      toast("Could not read images", {
+        description: error instanceof Error ? error.message : "The files could not be read.",
+      })
     }
   }, [])
 
+  const handleImageUpload = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? [])
+      // Allow picking the same file again
+      event.target.value = ""
+      if (files.length > 0) intakeImages(files)
+    },
+    [intakeImages],
+  )
+
+  const handleFilesDrop = useCallback(
+    (event: React.DragEvent) => {
+      event.preventDefault()
+      setIsDraggingFiles(false)
+      const files = Array.from(event.dataTransfer.files)
+      if (files.length > 0) intakeImages(files)
+    },
+    [intakeImages],
+  )
+
+  const createBatchProjects = useCallback(
+    (projects: PendingImage[], datasetName: string | null) => {
+      const now = Date.now()
+      const created: SavedProject[] = projects.map((project, i) => ({
+        id: (now + i).toString(),
+        name: project.name,
+        image: project.image,
+        annotations: [],
+        createdAt: new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      }))
+      setSavedProjects((prev) => [...prev, ...created])
+      setPendingBatch([])
+      if (datasetName) {
+        const dataset = createDataset(datasetName, created.map((project) => project.id))
+        updateDatasets((prev) => [...prev, dataset])
+      }
+
+      // Start on the first one; the rest wait in the Projects panel. New projects start from the default labels.
+      setImage(created[0].image)
+      setCurrentProjectName(created[0].name)
+      setCurrentProjectId(created[0].id)
+      setServerVersion(null)
+      setTaxonomy(DEFAULT_TAXONOMY)
+      setSelectedLabel(DEFAULT_TAXONOMY[0].name)
+      resetAnnotations([])
+      markSaved(created[0].name, [])
+
+      toast(`${created.length} projects created`, {
+        description: datasetName
+          ? `Dataset "${datasetName}" is open at its first image.`
+          : `"${created[0].name}" is open. The others are in Projects.`,
+      })
+    },
+    [resetAnnotations, markSaved, updateDatasets],
+  )
+
   const handleProjectNameSubmit = useCallback(() => {
-    if (projectName.trim() && pendingImageFile) {
+    if (!projectName.trim() || !pendingImageFile) return
+    replaceProject(() => {
       setImage(pendingImageFile)
       setCurrentProjectName(projectName.trim())
       setCurrentProjectId(Date.now().toString())
-      setAnnotations([])
+      setServerVersion(null)
+      // Not the labels of the project open before
+      setTaxonomy(DEFAULT_TAXONOMY)
+      setSelectedLabel(DEFAULT_TAXONOMY[0].name)
+      resetAnnotations([])
+      setSavedSnapshot(null)
       setIsNameDialogOpen(false)
       setProjectName("")
       setPendingImageFile(null)
@@ -258,38 +754,306 @@ export default function UIAnnotationApp() {
       toast("Project created", {
         description: `Project "${projectName.trim()}" has been created.`,
       })
-    }
-  }, [projectName, pendingImageFile])
+    })
+  }, [projectName, pendingImageFile, replaceProject, resetAnnotations])
+
+  // Back to the empty canvas, ready for the next image
+  const startNewProject = useCallback(() => {
+    setImage(null)
+    setCurrentProjectName("")
+    setCurrentProjectId(null)
+    resetAnnotations([])
+    selectAnnotation(null)
+    setIsDrawing(false)
+    setStartPoint(null)
+    setCurrentBox(null)
+    setTaxonomy(DEFAULT_TAXONOMY)
+    setSelectedLabel(DEFAULT_TAXONOMY[0].name)
+    setIsAnnotationsOpen(false)
+    setIsProjectsOpen(false)
+    setIsNameDialogOpen(false)
+    setProjectName("")
+    setPendingImageFile(null)
+  }, [resetAnnotations, selectAnnotation])
 
+  // Mouse position in natural image pixels
   const getRelativeCoordinates = useCallback((event: React.MouseEvent) => {
-    if (!imageRef.current || !containerRef.current) return { x: 0, y: 0 }
+    if (!containerRef.current) return { x: 0, y: 0 }
 
-    const rect = imageRef.current.getBoundingClientRect()
-    const containerRect = containerRef.current.getBoundingClientRect()
+    const rect = containerRef.current.getBoundingClientRect()
 
     return {
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top,
+      x: (event.clientX - rect.left - view.pan.x) / view.zoom,
+      y: (event.clientY - rect.top - view.pan.y) / view.zoom,
+    }
+  }, [view])
+
+  // Natural size of the current image, or null until it has loaded
+  const imageSize = loadedImage && loadedImage.src === image ? loadedImage.size : null
+
+  const getImageBounds = useCallback((): Size => imageSize ?? { width: 0, height: 0 }, [imageSize])
+
+  // Zoom so that the image point under `anchor` (canvas px) stays where it is
+  const zoomAt = useCallback((getZoom: (zoom: number) => number, anchor?: Point) => {
+    const container = containerRef.current
+    const point = anchor ?? (container ? { x: container.clientWidth / 2, y: container.clientHeight / 2 } : { x: 0, y: 0 })
+
+    setView((prev) => zoomAround(prev, getZoom(prev.zoom), point))
+  }, [])
+
+  const fitToScreen = useCallback((size: Size | null = imageSize, allowUpscale = true) => {
+    const container = containerRef.current
+    if (!container || !size) return
+
+    const fit = Math.min(
+      (container.clientWidth - FIT_PADDING * 2) / size.width,
+      (container.clientHeight - FIT_PADDING * 2) / size.height,
+    )
+    const zoom = clampZoom(allowUpscale ? fit : Math.min(fit, 1))
+    setView({
+      zoom,
+      pan: {
+        x: (container.clientWidth - size.width * zoom) / 2,
+        y: (container.clientHeight - size.height * zoom) / 2,
+      },
+    })
+  }, [imageSize])
+
+  const handleImageLoad = useCallback((event: React.SyntheticEvent<HTMLImageElement>) => {
+    if (!image) return
+    const size = { width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight }
+    setLoadedImage({ src: image, size })
+    fitToScreen(size, false)
+  }, [image, fitToScreen])
+
+  // Wheel zooms around the cursor; registered natively so the page itself doesn't scroll
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = container.getBoundingClientRect()
+      zoomAt((zoom) => zoom * Math.exp(-e.deltaY * 0.0015), { x: e.clientX - rect.left, y: e.clientY - rect.top })
+    }
+
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => {
+      container.removeEventListener("wheel", handleWheel)
+    }
+  }, [image, zoomAt])
+
+  // Holding Space turns dragging into panning
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null
+      return !!el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.isContentEditable)
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTyping(e.target)) return
+      e.preventDefault()
+      setIsSpacePressed(true)
+    }
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") setIsSpacePressed(false)
+    }
+    const handleBlur = () => setIsSpacePressed(false)
+
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
     }
   }, [])
 
+  // Add a box with the current label, nesting it in the container it was drawn in
+  const createAnnotation = useCallback((box: Box, label: string = selectedLabel, attributes?: ElementAttributes) => {
+    const isContainer = (ann: Annotation) => isContainerLabel(taxonomy, ann.label)
+    const newAnnotation: Annotation = {
+      id: createAnnotationId(),
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      label,
+      ...(attributes && { attributes }),
+      parentId: findContainerAt(annotations, box, isContainer)?.id,
+    }
+
+    // A new container adopts the sibling boxes drawn entirely inside it
+    const adopted = new Set(
+      isContainer(newAnnotation)
+        ? annotations
+            .filter(
+              (ann) =>
+                ann.parentId === newAnnotation.parentId &&
+                ann.x >= box.x &&
+                ann.y >= box.y &&
+                ann.x + ann.width <= box.x + box.width &&
+                ann.y + ann.height <= box.y + box.height,
+            )
+            .map((ann) => ann.id)
+        : [],
+    )
+
+    executeAnnotations(`Create ${label}`, (prev) => [
+      ...prev.map((ann) => (adopted.has(ann.id) ? { ...ann, parentId: newAnnotation.id } : ann)),
+      newAnnotation,
+    ])
+    selectAnnotation(newAnnotation.id)
+
+    toast("Annotation added", {
+      description: `${label} annotation created successfully.`,
+    })
+  }, [annotations, taxonomy, selectedLabel, executeAnnotations, selectAnnotation])
+
+  // Run local pixel analysis around a click and show the proposed box for confirmation
+  const proposeMagicBox = useCallback(async (point: Point) => {
+    if (!image) return
+    setIsAnalyzing(true)
+    try {
+      const data = await loadImageData(image)
+      const box = proposeBoxAt(data, point.x, point.y)
+      setMagicProposal(box)
+      if (!box) {
+        toast("No element found", { description: "Couldn't find a distinct element there. Try clicking its background." })
+      }
+    } catch (error) {
+      toast("Magic box unavailable", { description: error instanceof Error ? error.message : "Could not read image pixels" })
+    } finally {
+      setIsAnalyzing(false)
+    }
+  }, [image])
+
   const handleMouseDown = useCallback(
     (event: React.MouseEvent) => {
       if (!image) return
 
+      // Middle button or Space + drag pans the canvas
+      if (event.button === 1 || isSpacePressed) {
+        event.preventDefault()
+        setPanState({ origin: { x: event.clientX, y: event.clientY }, initialPan: view.pan })
+        return
+      }
+      if (event.button !== 0) return
+
       const point = getRelativeCoordinates(event)
+      const bounds = getImageBounds()
+
+      // Shift + drag selects with a marquee instead of drawing
+      if (event.shiftKey) {
+        setMarquee({ origin: point, box: { ...point, width: 0, height: 0 }, initialSelection: selectedIds })
+        return
+      }
+
+      selectAnnotation(null)
+      if (point.x < 0 || point.y < 0 || point.x > bounds.width || point.y > bounds.height) return
+
+      if (tool === "magic") {
+        proposeMagicBox(point)
+        return
+      }
+
       setIsDrawing(true)
       setStartPoint(point)
       setCurrentBox(null)
     },
-    [image, getRelativeCoordinates],
+    [image, isSpacePressed, tool, view.pan, selectedIds, getRelativeCoordinates, getImageBounds, selectAnnotation, proposeMagicBox],
+  )
+
+  // Start dragging an existing box (move) or one of its handles (resize); Shift-click adds to the selection
+  const handleAnnotationMouseDown = useCallback(
+    (event: React.MouseEvent, annotation: Annotation, handle?: ResizeHandle) => {
+      // Let the canvas handle panning
+      if (event.button !== 0 || isSpacePressed) return
+      event.stopPropagation()
+
+      if (event.shiftKey && !handle) {
+        toggleSelection(annotation.id)
+        return
+      }
+
+      // Dragging a box that is part of the selection moves the whole selection
+      const isSelected = selectedIds.includes(annotation.id)
+      if (!isSelected) selectAnnotation(annotation.id)
+      const moved = handle ? [] : collectSubtrees(annotations, isSelected ? selectedIds : [annotation.id])
+      setDragState({
+        mode: handle ? "resize" : "move",
+        annotationId: annotation.id,
+        handle,
+        origin: getRelativeCoordinates(event),
+        initialBox: handle
+          ? { x: annotation.x, y: annotation.y, width: annotation.width, height: annotation.height }
+          : getBoundingBox(moved),
+        movedIds: new Set(moved.map((ann) => ann.id)),
+        snapshot: annotations,
+      })
+    },
+    [annotations, selectedIds, isSpacePressed, getRelativeCoordinates, selectAnnotation, toggleSelection],
   )
 
   const handleMouseMove = useCallback(
     (event: React.MouseEvent) => {
-      if (!isDrawing || !startPoint || !imageRef.current) return
+      if (panState) {
+        setView((prev) => ({
+          ...prev,
+          pan: {
+            x: panState.initialPan.x + event.clientX - panState.origin.x,
+            y: panState.initialPan.y + event.clientY - panState.origin.y,
+          },
+        }))
+        return
+      }
 
-      const currentPoint = getRelativeCoordinates(event)
+      if (marquee) {
+        const point = getRelativeCoordinates(event)
+        setMarquee({
+          ...marquee,
+          box: {
+            x: Math.min(marquee.origin.x, point.x),
+            y: Math.min(marquee.origin.y, point.y),
+            width: Math.abs(point.x - marquee.origin.x),
+            height: Math.abs(point.y - marquee.origin.y),
+          },
+        })
+        return
+      }
+
+      if (dragState) {
+        const currentPoint = getRelativeCoordinates(event)
+        const dx = currentPoint.x - dragState.origin.x
+        const dy = currentPoint.y - dragState.origin.y
+        const bounds = getImageBounds()
+        const box =
+          dragState.mode === "resize" && dragState.handle
+            ? resizeBox(dragState.initialBox, dragState.handle, dx, dy, bounds, MIN_BOX_SIZE / view.zoom)
+            : clampBox({ ...dragState.initialBox, x: dragState.initialBox.x + dx, y: dragState.initialBox.y + dy }, bounds)
+        const offsetX = box.x - dragState.initialBox.x
+        const offsetY = box.y - dragState.initialBox.y
+
+        previewAnnotations(
+          dragState.snapshot.map((ann) =>
+            dragState.mode === "resize" && ann.id === dragState.annotationId
+              ? { ...ann, ...box }
+              : dragState.movedIds.has(ann.id)
+                ? { ...ann, x: ann.x + offsetX, y: ann.y + offsetY }
+                : ann,
+          ),
+        )
+        return
+      }
+
+      if (!isDrawing || !startPoint) return
+
+      const bounds = getImageBounds()
+      const point = getRelativeCoordinates(event)
+      const currentPoint = {
+        x: Math.min(Math.max(0, point.x), bounds.width),
+        y: Math.min(Math.max(0, point.y), bounds.height),
+      }
       const box = {
         x: Math.min(startPoint.x, currentPoint.x),
         y: Math.min(startPoint.y, currentPoint.y),
@@ -299,71 +1063,672 @@ export default function UIAnnotationApp() {
 
       setCurrentBox(box)
     },
-    [isDrawing, startPoint, getRelativeCoordinates],
+    [panState, marquee, dragState, isDrawing, startPoint, view.zoom, getRelativeCoordinates, getImageBounds, previewAnnotations],
   )
 
   const handleMouseUp = useCallback(() => {
-    if (!isDrawing || !currentBox || currentBox.width < 10 || currentBox.height < 10) {
+    if (panState) {
+      setPanState(null)
+      return
+    }
+
+    if (marquee) {
+      const { box, initialSelection } = marquee
+      const inside = annotations
+        .filter(
+          (ann) =>
+            ann.x >= box.x &&
+            ann.y >= box.y &&
+            ann.x + ann.width <= box.x + box.width &&
+            ann.y + ann.height <= box.y + box.height &&
+            !initialSelection.includes(ann.id),
+        )
+        .map((ann) => ann.id)
+      setSelectedIds([...initialSelection, ...inside])
+      setMarquee(null)
+      return
+    }
+
+    if (dragState) {
+      // A click without dragging on a box of a multi-selection narrows the selection to that box
+      if (annotations === dragState.snapshot) {
+        if (dragState.mode === "move") selectAnnotation(dragState.annotationId)
+        setDragState(null)
+        return
+      }
+
+      const annotation = annotations.find((ann) => ann.id === dragState.annotationId)
+      let label = `${dragState.mode === "resize" ? "Resize" : "Move"} ${annotation?.label ?? "annotation"}`
+
+      // Dropping boxes onto a container makes them children of that container (or takes them out)
+      if (dragState.mode === "move") {
+        const roots = annotations.filter(
+          (ann) => dragState.movedIds.has(ann.id) && !(ann.parentId && dragState.movedIds.has(ann.parentId)),
+        )
+        const newParents = new Map<string, string | undefined>()
+        roots.forEach((root) => {
+          const container = findContainerAt(
+            annotations,
+            root,
+            (ann) => isContainerLabel(taxonomy, ann.label),
+            dragState.movedIds,
+          )
+          if (container?.id !== root.parentId) newParents.set(root.id, container?.id)
+        })
+
+        if (roots.length > 1) {
+          label = `Move ${roots.length} annotations`
+        } else if (annotation && newParents.has(annotation.id)) {
+          const container = annotations.find((ann) => ann.id === newParents.get(annotation.id))
+          const previousParent = annotations.find((ann) => ann.id === annotation.parentId)
+          label = container
+            ? `Move ${annotation.label} into ${container.label}`
+            : `Move ${annotation.label} out of ${previousParent?.label ?? "container"}`
+        }
+        if (newParents.size > 0) {
+          previewAnnotations((prev) =>
+            prev.map((ann) => (newParents.has(ann.id) ? { ...ann, parentId: newParents.get(ann.id) } : ann)),
+          )
+        }
+      }
+
+      commitAnnotations(label, dragState.snapshot)
+      setDragState(null)
+      return
+    }
+
+    if (
+      !isDrawing ||
+      !currentBox ||
+      currentBox.width * view.zoom < MIN_BOX_SIZE ||
+      currentBox.height * view.zoom < MIN_BOX_SIZE
+    ) {
       setIsDrawing(false)
       setStartPoint(null)
       setCurrentBox(null)
       return
     }
 
-    const newAnnotation: Annotation = {
-      id: Date.now().toString(),
-      ...currentBox,
-      label: selectedLabel,
-    }
-
-    setAnnotations((prev) => [...prev, newAnnotation])
+    createAnnotation(currentBox)
     setIsDrawing(false)
     setStartPoint(null)
     setCurrentBox(null)
+  }, [
+    panState,
+    marquee,
+    dragState,
+    annotations,
+    taxonomy,
+    isDrawing,
+    currentBox,
+    view.zoom,
+    previewAnnotations,
+    commitAnnotations,
+    createAnnotation,
+    selectAnnotation,
+  ])
+
+  // A proposal belongs to the image it was computed on
+  useEffect(() => {
+    setMagicProposal(null)
+  }, [image])
 
-    toast("Annotation added", {
-      description: `${selectedLabel} annotation created successfully.`,
-    })
-  }, [isDrawing, currentBox, selectedLabel])
+  const confirmMagicProposal = useCallback(() => {
+    if (!magicProposal) return
+    createAnnotation(magicProposal)
+    setMagicProposal(null)
+  }, [magicProposal, createAnnotation])
+
+  // Shrink the selected box to the visible edges of the element inside it
+  const tightenSelectedAnnotation = useCallback(async () => {
+    const annotation = annotations.find((ann) => ann.id === selectedAnnotation)
+    if (!image || !annotation) return
+    try {
+      const data = await loadImageData(image)
+      const box = tightenBox(data, annotation)
+      if (!box) {
+        toast("Nothing to tighten", { description: "The box only contains background." })
+        return
+      }
+      executeAnnotations(`Tighten ${annotation.label}`, (prev) => prev.map((ann) => (ann.id === annotation.id ? { ...ann, ...box } : ann)))
+    } catch (error) {
+      toast("Tighten unavailable", { description: error instanceof Error ? error.message : "Could not read image pixels" })
+    }
+  }, [image, annotations, selectedAnnotation, executeAnnotations])
+
+  // Enter accepts the magic box proposal, Escape dismisses it
+  useEffect(() => {
+    if (!magicProposal) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+
+      if (e.key === "Enter") {
+        e.preventDefault()
+        confirmMagicProposal()
+      } else if (e.key === "Escape") {
+        setMagicProposal(null)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [magicProposal, confirmMagicProposal])
+
+  // Candidates belong to the image they were computed on
+  useEffect(() => {
+    setCandidates([])
+    setActiveCandidateId(null)
+  }, [image])
+
+  // Detect candidate element boxes over the whole image in a worker, skipping what is already annotated
+  const findRegions = useCallback(async () => {
+    if (!image) return
+    setIsFindingRegions(true)
+    try {
+      const data = await loadImageData(image)
+      const boxes = await new Promise<Box[]>((resolve, reject) => {
+        const worker = new Worker(new URL("../../workers/region-proposals.worker.ts", import.meta.url))
+        worker.onmessage = (event: MessageEvent<RegionProposalResponse>) => {
+          worker.terminate()
+          if ("error" in event.data) reject(new Error(event.data.error))
+          else resolve(event.data.boxes)
+        }
+        worker.onerror = (event) => {
+          worker.terminate()
+          reject(new Error(event.message || "Region detection failed"))
+        }
+        // Send a copy: transferring the cached ImageData buffer would detach it
+        const pixels = new Uint8ClampedArray(data.data)
+        const request: RegionProposalRequest = { image: { width: data.width, height: data.height, data: pixels } }
+        worker.postMessage(request, [pixels.buffer])
+      })
+
+      const fresh = boxes
+        .filter((box) => annotations.every((ann) => calculateIoU(ann, box) < 0.5))
+        .map((box, index) => ({ ...box, id: `candidate-${Date.now()}-${index}` }))
+      setCandidates(fresh)
+      setActiveCandidateId(fresh[0]?.id ?? null)
+      toast(fresh.length ? "Regions found" : "No new regions found", {
+        description: fresh.length
+          ? `${fresh.length} candidate box${fresh.length !== 1 ? "es" : ""}. Press a label hotkey to accept, X to dismiss.`
+          : "Every detected region is already annotated.",
+      })
+    } catch (error) {
+      toast("Region proposals unavailable", { description: error instanceof Error ? error.message : "Could not read image pixels" })
+    } finally {
+      setIsFindingRegions(false)
+    }
+  }, [image, annotations])
+
+  const dismissCandidate = useCallback((id: string) => {
+    const index = candidates.findIndex((c) => c.id === id)
+    const remaining = candidates.filter((c) => c.id !== id)
+    setCandidates(remaining)
+    // Move on to the next candidate in reading order
+    setActiveCandidateId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null)
+  }, [candidates])
+
+  const acceptCandidate = useCallback((id: string, label: string) => {
+    const candidate = candidates.find((c) => c.id === id)
+    if (!candidate) return
+    createAnnotation(candidate, label)
+    dismissCandidate(id)
+  }, [candidates, createAnnotation, dismissCandidate])
+
+  // While reviewing candidates: a label hotkey (or Enter for the current label) accepts the active one,
+  // X dismisses it and Tab / Shift+Tab move between candidates
+  useEffect(() => {
+    if (!activeCandidateId || review) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      if (target?.closest?.("[role='dialog']")) return
+
+      const def = taxonomy.find((d) => d.hotkey && d.hotkey.toLowerCase() === e.key.toLowerCase())
+      if (def) {
+        acceptCandidate(activeCandidateId, def.name)
+      } else if (e.key === "Enter" && !magicProposal) {
+        e.preventDefault()
+        acceptCandidate(activeCandidateId, selectedLabel)
+      } else if (e.key.toLowerCase() === "x") {
+        dismissCandidate(activeCandidateId)
+      } else if (e.key === "Tab") {
+        e.preventDefault()
+        const index = candidates.findIndex((c) => c.id === activeCandidateId)
+        const next = (index + (e.shiftKey ? -1 : 1) + candidates.length) % candidates.length
+        setActiveCandidateId(candidates[next].id)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [activeCandidateId, review, candidates, taxonomy, selectedLabel, magicProposal, acceptCandidate, dismissCandidate])
+
+  // Arrow keys nudge the selected boxes by 1 image px (10px with Shift), Escape clears the selection
+  useEffect(() => {
+    if (selectedIds.length === 0) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      // Boxes hidden behind a dialog or the comparison view stay put
+      if (target?.closest?.("[role='dialog']")) return
+
+      if (e.key === "Escape") {
+        selectAnnotation(null)
+        return
+      }
+
+      const step = e.shiftKey ? 10 : 1
+      const offsets: Record<string, Point> = {
+        ArrowLeft: { x: -step, y: 0 },
+        ArrowRight: { x: step, y: 0 },
+        ArrowUp: { x: 0, y: -step },
+        ArrowDown: { x: 0, y: step },
+      }
+      const offset = offsets[e.key]
+      if (!offset) return
+
+      e.preventDefault()
+      const bounds = getImageBounds()
+      executeAnnotations(selectedIds.length === 1 ? "Nudge annotation" : `Nudge ${selectedIds.length} annotations`, (prev) => {
+        // Children of a container move along with it
+        const moved = collectSubtrees(prev, selectedIds)
+        if (moved.length === 0) return prev
+        const group = getBoundingBox(moved)
+        const box = clampBox({ ...group, x: group.x + offset.x, y: group.y + offset.y }, bounds)
+        const dx = box.x - group.x
+        const dy = box.y - group.y
+        const movedIds = new Set(moved.map((ann) => ann.id))
+        return prev.map((ann) => (movedIds.has(ann.id) ? { ...ann, x: ann.x + dx, y: ann.y + dy } : ann))
+      })
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [selectedIds, getImageBounds, executeAnnotations, selectAnnotation])
 
   const deleteAnnotation = useCallback((id: string) => {
-    setAnnotations((prev) => prev.filter((ann) => ann.id !== id))
-    setSelectedAnnotation(null)
+    const annotation = annotations.find((ann) => ann.id === id)
+    executeAnnotations(`Delete ${annotation?.label ?? "annotation"}`, (prev) => removeAnnotation(prev, id))
+    selectAnnotation(null)
     toast("Annotation deleted", {
       description: "Annotation removed successfully.",
     })
-  }, [])
+  }, [annotations, executeAnnotations, selectAnnotation])
+
+  const deleteSelection = useCallback(() => {
+    if (selectedIds.length === 0) return
+    if (selectedIds.length === 1) {
+      deleteAnnotation(selectedIds[0])
+      return
+    }
+    executeAnnotations(`Delete ${selectedIds.length} annotations`, (prev) => removeAnnotations(prev, selectedIds))
+    toast("Annotations deleted", {
+      description: `${selectedIds.length} annotations removed. Press Ctrl+Z to restore them.`,
+    })
+    selectAnnotation(null)
+  }, [selectedIds, deleteAnnotation, executeAnnotations, selectAnnotation])
+
+  const relabelAnnotations = useCallback((ids: string[], label: string) => {
+    const keepsChildren = isContainerLabel(taxonomy, label)
+    executeAnnotations(ids.length === 1 ? `Relabel as ${label}` : `Relabel ${ids.length} annotations as ${label}`, (prev) =>
+      ids.reduce((current, id) => {
+        const target = current.find((ann) => ann.id === id)
+        return current.map((ann) => {
+          if (ann.id === id) return { ...ann, label }
+          // Only containers can hold children; the rest move up a level
+          if (!keepsChildren && ann.parentId === id) return { ...ann, parentId: target?.parentId }
+          return ann
+        })
+      }, prev),
+    )
+  }, [taxonomy, executeAnnotations])
+
+  const copySelection = useCallback(() => {
+    if (selectedIds.length === 0) return
+    clipboardRef.current = { annotations: collectSubtrees(annotations, selectedIds), pasteCount: 0 }
+    toast("Copied", {
+      description: `${selectedIds.length} annotation${selectedIds.length !== 1 ? "s" : ""} copied. Press Ctrl+V to paste.`,
+    })
+  }, [annotations, selectedIds])
+
+  // Each paste lands a little further from the original so copies don't stack exactly on top of each other
+  const pasteClipboard = useCallback(() => {
+    const clipboard = clipboardRef.current
+    if (!clipboard || clipboard.annotations.length === 0 || !imageSize) return
+    clipboard.pasteCount++
+
+    const group = getBoundingBox(clipboard.annotations)
+    const offset = PASTE_OFFSET * clipboard.pasteCount
+    const box = clampBox({ ...group, x: group.x + offset, y: group.y + offset }, getImageBounds())
+    const clones = cloneAnnotations(clipboard.annotations, box.x - group.x, box.y - group.y)
+    const copyIds = new Set(clones.map((ann) => ann.id))
+    const existingIds = new Set(annotations.map((ann) => ann.id))
+    // Boxes copied from another image lose parents that don't exist here
+    const copies = clones.map((ann) =>
+      ann.parentId && !copyIds.has(ann.parentId) && !existingIds.has(ann.parentId) ? { ...ann, parentId: undefined } : ann,
+    )
+
+    executeAnnotations(`Paste ${copies.length} annotation${copies.length !== 1 ? "s" : ""}`, (prev) => [...prev, ...copies])
+    setSelectedIds(copies.filter((ann) => !ann.parentId || !copyIds.has(ann.parentId)).map((ann) => ann.id))
+  }, [annotations, imageSize, getImageBounds, executeAnnotations])
+
+  // Ctrl+V: a screenshot on the system clipboard opens as a new image, otherwise the copied boxes are pasted
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      const files = Array.from(e.clipboardData?.files ?? []).filter(isImageFile)
+      if (files.length > 0) {
+        e.preventDefault()
+        intakeImages(files, () => screenshotName())
+        return
+      }
+      if (!clipboardRef.current || target?.closest?.("[role='dialog']")) return
+      e.preventDefault()
+      pasteClipboard()
+    }
+
+    window.addEventListener("paste", handlePaste)
+    return () => {
+      window.removeEventListener("paste", handlePaste)
+    }
+  }, [intakeImages, pasteClipboard])
+
+  // Repeat the selection `columns` x `rows` times, `gap` image px apart (the selection is the top-left cell)
+  const duplicateAsGrid = useCallback(({ rows, columns, gapX, gapY }: GridDuplicateOptions) => {
+    const source = collectSubtrees(annotations, selectedIds)
+    if (source.length === 0) return
+    const group = getBoundingBox(source)
+    const bounds = getImageBounds()
+
+    const copies: Annotation[] = []
+    let skipped = 0
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        if (row === 0 && column === 0) continue
+        const dx = column * (group.width + gapX)
+        const dy = row * (group.height + gapY)
+        if (group.x + dx + group.width > bounds.width || group.y + dy + group.height > bounds.height) {
+          skipped++
+          continue
+        }
+        copies.push(...cloneAnnotations(source, dx, dy))
+      }
+    }
+
+    if (copies.length > 0) {
+      executeAnnotations(`Duplicate as ${columns}×${rows} grid`, (prev) => [...prev, ...copies])
+    }
+    toast("Grid created", {
+      description: `${rows * columns - 1 - skipped} cop${rows * columns - 1 - skipped !== 1 ? "ies" : "y"} added${
+        skipped ? `, ${skipped} skipped because they fall outside the image` : ""
+      }.`,
+    })
+  }, [annotations, selectedIds, getImageBounds, executeAnnotations])
+
+  const reparentAnnotation = useCallback((id: string, parentId: string | undefined) => {
+    const annotation = annotations.find((ann) => ann.id === id)
+    const parent = annotations.find((ann) => ann.id === parentId)
+    if (!annotation || annotation.parentId === parentId) return
+    // Refuse to put a container inside itself or one of its own children
+    if (parentId && (parentId === id || getDescendantIds(annotations, id).has(parentId))) return
+
+    executeAnnotations(
+      parent ? `Move ${annotation.label} into ${parent.label}` : `Move ${annotation.label} to top level`,
+      (prev) => prev.map((ann) => (ann.id === id ? { ...ann, parentId } : ann)),
+    )
+  }, [annotations, executeAnnotations])
+
+  const updateAnnotationAttributes = useCallback((id: string, attributes: ElementAttributes) => {
+    const annotation = annotations.find((ann) => ann.id === id)
+    // Compared and stored cleaned, so leaving a field untouched (`{}` becoming `{ extra: {} }`) is no edit
+    const cleaned = cleanAttributes(attributes)
+    if (!annotation || sameAttributes(annotation.attributes, cleaned)) return
+    executeAnnotations(`Edit ${annotation.label} attributes`, (prev) =>
+      prev.map((ann) => (ann.id === id ? { ...ann, attributes: cleaned } : ann)),
+    )
+  }, [annotations, executeAnnotations])
+
+  // Keep the taxonomy stored with the project it belongs to
+  useEffect(() => {
+    if (currentProjectId) saveTaxonomy(currentProjectId, taxonomy)
+  }, [currentProjectId, taxonomy])
+
+  const selectedAnnotationData = annotations.find((ann) => ann.id === selectedAnnotation) ?? null
+  const selectedAnnotations = useMemo(
+    () => annotations.filter((ann) => selectedIds.includes(ann.id)),
+    [annotations, selectedIds],
+  )
+
+  const magicProposalScreen = magicProposal ? imageToScreen(magicProposal, view) : null
+
+  const currentPredictions = currentProjectId ? predictResults[currentProjectId] : undefined
+  const predictionModels = useMemo(() => Object.keys(currentPredictions ?? {}), [currentPredictions])
+
+  // Show the first model when the open project's predictions don't include the one picked before
+  useEffect(() => {
+    if (predictionModels.length > 0 && !predictionModels.includes(predictionLayer.model ?? "")) {
+      setPredictionLayer((prev) => ({ ...prev, model: predictionModels[0] }))
+    }
+  }, [predictionModels, predictionLayer.model])
+
+  // During a review the reviewed model is always drawn
+  const layerModel = review ? review.model : predictionLayer.visible ? predictionLayer.model : null
+  const predictionBoxes = useMemo(
+    () => (layerModel ? predictionToAnnotations(currentPredictions?.[layerModel], taxonomy) : []),
+    [currentPredictions, layerModel, taxonomy],
+  )
+  const reviewBox = review ? (predictionBoxes[review.index] ?? null) : null
+  const reviewBoxScreen = reviewBox && !review?.decisions[reviewBox.id] ? imageToScreen(reviewBox, view) : null
+  const reviewCounts = useMemo(() => {
+    const decisions = Object.values(review?.decisions ?? {})
+    return {
+      accepted: decisions.filter((decision) => decision === "accepted").length,
+      rejected: decisions.filter((decision) => decision === "rejected").length,
+    }
+  }, [review?.decisions])
+
+  // A review belongs to the project it was started on
+  useEffect(() => {
+    setReview(null)
+  }, [currentProjectId])
+
+  const startReview = useCallback(() => {
+    const model = predictionLayer.model
+    const prediction = model ? currentPredictions?.[model] : undefined
+    if (!model || !prediction?.elements.length) return
+    // Predicted types the taxonomy doesn't know yet get a label, so accepted boxes have one
+    setTaxonomy((prev) => ensureTypes(prev, prediction.elements.map((el) => el.type)))
+    setCandidates([])
+    setActiveCandidateId(null)
+    setMagicProposal(null)
+    setReview({ model, index: 0, decisions: {} })
+  }, [predictionLayer.model, currentPredictions])
+
+  // Record a decision for the box under review and move on to the next undecided one
+  const decideReviewBox = useCallback((decision: "accepted" | "rejected", label?: string, adjust = false) => {
+    if (!review || !reviewBox) return
+    if (decision === "accepted") {
+      createAnnotation(reviewBox, label ?? reviewBox.label, reviewBox.attributes)
+      // Keep the new box selected only when it is about to be adjusted
+      if (!adjust) selectAnnotation(null)
+    }
+
+    const decisions = { ...review.decisions, [reviewBox.id]: decision }
+    const total = predictionBoxes.length
+    let next = review.index
+    for (let step = 1; step <= total; step++) {
+      const candidate = (review.index + step) % total
+      if (!decisions[predictionBoxes[candidate].id]) {
+        next = candidate
+        break
+      }
+    }
+    setReview({ ...review, index: next, decisions })
+    if (Object.keys(decisions).length === total) {
+      const accepted = Object.values(decisions).filter((d) => d === "accepted").length
+      toast("Review complete", { description: `${accepted} of ${total} predicted boxes added to the ground truth.` })
+    }
+  }, [review, reviewBox, predictionBoxes, createAnnotation, selectAnnotation])
+
+  const moveReview = useCallback((step: 1 | -1) => {
+    if (!review || predictionBoxes.length === 0) return
+    setReview({ ...review, index: (review.index + step + predictionBoxes.length) % predictionBoxes.length })
+  }, [review, predictionBoxes.length])
+
+  // Review keys: Enter/A accepts, a label hotkey relabels and accepts, D accepts and keeps the box selected
+  // for adjusting, X rejects, Tab / Shift+Tab skip, Escape ends the review
+  useEffect(() => {
+    if (!review) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      if (target?.closest?.("[role='dialog']")) return
+
+      if (e.key === "Escape") {
+        setReview(null)
+        return
+      }
+      if (e.key === "Tab") {
+        e.preventDefault()
+        moveReview(e.shiftKey ? -1 : 1)
+        return
+      }
+      if (!reviewBox || review.decisions[reviewBox.id]) return
+
+      const key = e.key.toLowerCase()
+      const def = taxonomy.find((d) => d.hotkey && d.hotkey.toLowerCase() === key)
+      if (def) {
+        decideReviewBox("accepted", def.name)
+      } else if ((e.key === "Enter" && !magicProposal) || key === "a") {
+        e.preventDefault()
+        decideReviewBox("accepted")
+      } else if (key === "d") {
+        decideReviewBox("accepted", undefined, true)
+      } else if (key === "x") {
+        decideReviewBox("rejected")
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [review, reviewBox, taxonomy, magicProposal, decideReviewBox, moveReview])
+
+  // Bring the box under review into view when it is off screen
+  useEffect(() => {
+    const container = containerRef.current
+    if (!reviewBox || !container) return
+    setView((prev) => {
+      const box = imageToScreen(reviewBox, prev)
+      if (box.x >= 0 && box.y >= 0 && box.x + box.width <= container.clientWidth && box.y + box.height <= container.clientHeight) {
+        return prev
+      }
+      return {
+        ...prev,
+        pan: {
+          x: container.clientWidth / 2 - (reviewBox.x + reviewBox.width / 2) * prev.zoom,
+          y: container.clientHeight / 2 - (reviewBox.y + reviewBox.height / 2) * prev.zoom,
+        },
+      }
+    })
+  }, [reviewBox])
+
+  // Parents before children: drives the tree in the Annotations sheet and the paint order on the canvas
+  const annotationTree = useMemo(() => flattenAnnotationTree(annotations), [annotations])
+
+  const labelUsage = useMemo(() => {
+    const usage: Record<string, number> = {}
+    annotations.forEach((ann) => {
+      usage[ann.label] = (usage[ann.label] ?? 0) + 1
+    })
+    return usage
+  }, [annotations])
+
+  const handleTaxonomySave = useCallback((next: Taxonomy) => {
+    // Renamed labels carry their annotations with them
+    const renames = new Map<string, string>()
+    taxonomy.forEach((def) => {
+      const updated = next.find((d) => d.id === def.id)
+      if (updated && updated.name !== def.name) renames.set(def.name, updated.name)
+    })
+    if (renames.size > 0) {
+      executeAnnotations("Rename labels", (prev) =>
+        prev.map((ann) => (renames.has(ann.label) ? { ...ann, label: renames.get(ann.label)! } : ann)),
+      )
+    }
+
+    setTaxonomy(next)
+    setSelectedLabel((prev) => {
+      const name = renames.get(prev) ?? prev
+      return findLabel(next, name) ? name : next[0].name
+    })
+    toast("Labels updated", { description: `${next.length} label${next.length !== 1 ? "s" : ""} in this project.` })
+  }, [taxonomy, executeAnnotations])
+
+  // Label hotkeys pick the label used for the next box
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      if (target?.closest?.("[role='dialog']")) return
+
+      const def = taxonomy.find((d) => d.hotkey && d.hotkey.toLowerCase() === e.key.toLowerCase())
+      if (def) setSelectedLabel(def.name)
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [taxonomy])
 
   const clearAllAnnotations = useCallback(() => {
-    setAnnotations([])
-    setSelectedAnnotation(null)
+    executeAnnotations("Clear all annotations", [])
+    selectAnnotation(null)
     toast("All annotations cleared", {
-      description: "All annotations have been removed.",
+      description: "All annotations have been removed. Press Ctrl+Z to restore them.",
     })
-  }, [])
+  }, [executeAnnotations, selectAnnotation])
+
+  const handleUndo = useCallback(() => {
+    const command = undo()
+    if (command) {
+      selectAnnotation(null)
+      toast("Undo", { description: command.label })
+    }
+  }, [undo, selectAnnotation])
+
+  const handleRedo = useCallback(() => {
+    const command = redo()
+    if (command) {
+      selectAnnotation(null)
+      toast("Redo", { description: command.label })
+    }
+  }, [redo, selectAnnotation])
 
   // Function to upload image to backend
-  const uploadImageToBackend = useCallback(async (imageFile: File, groundTruth?: any) => {
+  const uploadImageToBackend = useCallback(async (imageFile: File, groundTruth?: UploadGroundTruth) => {
     try {
       setIsUploading(true)
       
-      const formData = new FormData()
-      formData.append('image', imageFile)
-      
-      if (groundTruth) {
-        formData.append('ground_truth', JSON.stringify(groundTruth))
-      }
-
-      const response = await fetch('http://localhost:8080/api/v1/images/upload', {
-        method: 'POST',
-        body: formData,
-      })
-
-      if (!response.ok) {
-        throw new Error(`Upload failed: ${response.status}`)
-      }
-
-      const result = await response.json()
+      const result = await uploadImage(imageFile, groundTruth)
       
       toast("Image uploaded successfully", {
         description: `Image "${result.name}" has been uploaded to the server.`,
@@ -407,6 +1772,7 @@ export default function UIAnnotationApp() {
       const groundTruth = {
         project_name: currentProjectName,
         annotations: annotations,
+        elements: toGroundTruthElements(annotations, taxonomy),
         total_annotations: annotations.length,
         created_at: new Date().toISOString(),
       }
@@ -437,7 +1803,9 @@ export default function UIAnnotationApp() {
         }
       })
 
-      setHasUnsavedChanges(false)
+      markSaved(currentProjectName, annotations)
+      setServerVersion(uploadResult.updated_at ?? null)
+      adoptServerRecord(currentProjectId, uploadResult)
 
       toast("Project saved and uploaded", {
         description: `"${currentProjectName}" has been saved and uploaded to server successfully.`,
@@ -465,53 +1833,80 @@ export default function UIAnnotationApp() {
         }
       })
 
-      setHasUnsavedChanges(false)
+      markSaved(currentProjectName, annotations)
+
+      // Retry the upload once the server is back; images already on the server are updated with Update instead
+      if (image.startsWith("data:")) {
+        enqueueSync(currentProjectId, {
+          kind: "upload",
+          name: currentProjectName,
+          image,
+          groundTruth: {
+            project_name: currentProjectName,
+            annotations,
+            elements: toGroundTruthElements(annotations, taxonomy),
+            total_annotations: annotations.length,
+            created_at: new Date().toISOString(),
+          },
+        })
+      }
 
       toast("Project saved locally", {
-        description: `"${currentProjectName}" has been saved locally (upload failed).`,
+        description: image.startsWith("data:")
+          ? `"${currentProjectName}" has been saved locally and will be uploaded when the server is reachable.`
+          : `"${currentProjectName}" has been saved locally (upload failed).`,
       })
     }
-  }, [image, currentProjectName, currentProjectId, annotations, uploadImageToBackend, base64ToFile])
+  }, [image, currentProjectName, currentProjectId, annotations, taxonomy, uploadImageToBackend, base64ToFile, markSaved, enqueueSync, adoptServerRecord])
 
   const loadProject = useCallback((project: SavedProject) => {
     setImage(project.image)
     setCurrentProjectName(project.name)
     setCurrentProjectId(project.id)
-    setAnnotations(project.annotations)
+    // Local copies don't know the server's version; Update then overwrites without checking
+    setServerVersion(null)
+    const projectTaxonomy = loadTaxonomy(project.id)
+    setTaxonomy(projectTaxonomy)
+    setSelectedLabel(projectTaxonomy[0].name)
+    resetAnnotations(project.annotations)
+    markSaved(project.name, project.annotations)
     setIsProjectsOpen(false)
 
     toast("Project loaded", {
       description: `"${project.name}" has been loaded.`,
     })
-  }, [])
+  }, [resetAnnotations, markSaved])
 
   const deleteProject = useCallback(
     (projectId: string) => {
       setSavedProjects((prev) => prev.filter((p) => p.id !== projectId))
 
+      deleteTaxonomy(projectId)
+
       // If current project is deleted, clear the workspace
       if (currentProjectId === projectId) {
         setImage(null)
         setCurrentProjectName("")
         setCurrentProjectId(null)
-        setAnnotations([])
+        resetAnnotations([])
       }
 
       toast("Project deleted", {
         description: "Project has been deleted successfully.",
       })
     },
-    [currentProjectId],
+    [currentProjectId, resetAnnotations],
   )
 
   const exportAnnotations = useCallback(() => {
-    if (!imageRef.current) return
+    if (!imageSize) return
 
+    // bbox values are natural image pixels, matching image.width/height
     const exportData = {
       projectName: currentProjectName,
       image: {
-        width: imageRef.current.naturalWidth,
-        height: imageRef.current.naturalHeight,
+        width: imageSize.width,
+        height: imageSize.height,
         src: image,
       },
       annotations: annotations.map((ann) => ({
@@ -523,6 +1918,8 @@ export default function UIAnnotationApp() {
           width: ann.width,
           height: ann.height,
         },
+        attributes: cleanAttributes(ann.attributes),
+        parentId: ann.parentId,
       })),
       timestamp: new Date().toISOString(),
     }
@@ -540,168 +1937,408 @@ export default function UIAnnotationApp() {
     toast("Annotations exported", {
       description: "JSON file downloaded successfully.",
     })
-  }, [image, annotations, currentProjectName])
+  }, [image, imageSize, annotations, currentProjectName])
 
-  const handlePredict = useCallback(async () => {
-    if (!image) return
+  // Ask the backend to run the models on the open image; results arrive over the prediction webhook
+  const requestPrediction = useCallback(async () => {
+    if (!currentProjectId) return
+    try {
+      await startPrediction(currentProjectId)
+      toast("Prediction started", { description: "Image has been sent to models for automatic labeling." })
+    } catch (err) {
+      if (err instanceof ApiError && err.kind === "rateLimited") {
+        toast.error(
+          "Rate limit exceeded",
+          {
+            description: `You can only request prediction for this image every 5 minutes. Please try again after ${err.retryAfterSeconds ?? "?"} seconds.`,
+            style: { background: "#fee2e2", color: "#b91c1c", border: "1px solid #f87171" },
+            icon: "⏳",
+          }
+        )
+        return
+      }
+      toast("Prediction failed", { description: getErrorMessage(err) })
+    }
+  }, [currentProjectId])
+
+  // Someone else updated the ground truth: fetch theirs and let the user merge it with `mine`, both edited from `base`
+  const startMerge = useCallback(
+    async (mine: Annotation[], base: Annotation[]) => {
+      if (!currentProjectId) return
+      const data = await fetchImage(currentProjectId)
+      const elements = data.ground_truth?.elements || []
+      const mergedTaxonomy = ensureTypes(taxonomy, elements.map((el) => el.type))
+      if (mergedTaxonomy !== taxonomy) setTaxonomy(mergedTaxonomy)
+      const theirs = fromGroundTruthElements(elements, mergedTaxonomy)
+      const items = findMergeItems(base, mine, theirs)
+      if (items.length === 0) {
+        // Both sides made the same changes: nothing left to send
+        setServerVersion(data.updated_at ?? null)
+        markSaved(currentProjectName, mine)
+        toast("Already up to date", { description: "The server has the same annotations." })
+        return
+      }
+      setMergeConflict({ theirs, version: data.updated_at ?? null, items })
+    },
+    [currentProjectId, currentProjectName, taxonomy, markSaved],
+  )
 
-    toast("Prediction started", {
-      description: "Calling AI model to predict UI elements...",
-    })
+  // A queued update of the open project went stale: its boxes are unsaved again, and merged with the server's
+  const mergeQueuedUpdate = useCallback(
+    (projectId: string) => {
+      const conflict = takeConflict(projectId)
+      if (!conflict) return
+      const base = fromGroundTruthElements(conflict.baseElements ?? [], taxonomy)
+      markSaved(currentProjectName, base)
+      startMerge(annotations, base).catch((error) => toast("Merge failed", { description: getErrorMessage(error) }))
+    },
+    [takeConflict, taxonomy, currentProjectName, annotations, markSaved, startMerge],
+  )
+
+  // Replace the ground truth of the open project on the server with `next`, provided it still is at `baseVersion`
+  // (whose boxes were `base`)
+  const sendGroundTruth = useCallback(
+    async (next: Annotation[], baseVersion: string | null, base: Annotation[]) => {
+      if (!currentProjectId) return
+      setIsUpdating(true)
+      try {
+        // Queued instead of lost when the server can't be reached; the base is kept to merge from if it went stale
+        const outcome = await submitToBackend(currentProjectId, {
+          kind: "updateGroundTruth",
+          elements: toGroundTruthElements(next, taxonomy),
+          ...(baseVersion && { baseVersion, baseElements: toGroundTruthElements(base, taxonomy) }),
+        })
+        markSaved(currentProjectName, next)
+        if (outcome.status === "queued") {
+          toast("Update queued", { description: `${outcome.error}. The annotations will be sent when the server is back.` })
+          return
+        }
+        setServerVersion(outcome.result?.updated_at ?? null)
+        toast("Project updated!", { description: "Annotations have been updated on server." })
+        // Không setAnnotations từ API response, giữ nguyên UI
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "conflict") {
+          await startMerge(next, base).catch((mergeError) =>
+            toast("Update failed", { description: `${err.message}. ${getErrorMessage(mergeError)}` }),
+          )
+          return
+        }
+        toast("Update failed", { description: getErrorMessage(err) })
+      } finally {
+        setIsUpdating(false)
+      }
+    },
+    [currentProjectId, currentProjectName, taxonomy, markSaved, submitToBackend, startMerge],
+  )
+
+  const updateGroundTruth = useCallback(
+    () => sendGroundTruth(annotations, serverVersion, savedSnapshot?.annotations ?? []),
+    [sendGroundTruth, annotations, serverVersion, savedSnapshot],
+  )
+
+  // Apply the boxes picked in the merge dialog and send them against the server's current version
+  const resolveMerge = useCallback(
+    (choices: Record<string, MergeSide>) => {
+      if (!mergeConflict) return
+      const merged = applyMerge(annotations, mergeConflict.theirs, mergeConflict.items, choices)
+      executeAnnotations("Merge server changes", merged)
+      // What is unsaved is now measured against the server's version
+      markSaved(currentProjectName, mergeConflict.theirs)
+      setServerVersion(mergeConflict.version)
+      setMergeConflict(null)
+      sendGroundTruth(merged, mergeConflict.version, mergeConflict.theirs)
+    },
+    [mergeConflict, annotations, executeAnnotations, markSaved, currentProjectName, sendGroundTruth],
+  )
+
+  // Load an image, its ground truth and the latest model predictions from the server
+  const openServerProject = useCallback(async (projectId: string) => {
+    try {
+      const data = await fetchImage(projectId)
+      // Mapping ground_truth.elements về annotation frontend
+      const elements = data.ground_truth?.elements || []
+      // An update queued for it that went stale is reopened for merging with the server's boxes
+      const conflict = takeConflict(data.id)
+      // Element types the project's taxonomy doesn't know yet get a label of their own
+      const projectTaxonomy = ensureTypes(
+        loadTaxonomy(data.id),
+        [...elements, ...(conflict?.elements ?? [])].map((el) => el.type),
+      )
+      const mappedAnnotations = elements.map((el, idx) =>
+        fromGroundTruthElement(el, idx, findLabelByType(projectTaxonomy, el.type)?.name ?? projectTaxonomy[0].name)
+      )
+      const mine = conflict ? fromGroundTruthElements(conflict.elements, projectTaxonomy) : mappedAnnotations
+      const base = conflict ? fromGroundTruthElements(conflict.baseElements ?? [], projectTaxonomy) : mappedAnnotations
+      const mergeItems = findMergeItems(base, mine, mappedAnnotations)
+      setImage(data.image_url)
+      setCurrentProjectName(data.name)
+      setCurrentProjectId(data.id)
+      setServerVersion(data.updated_at)
+      setTaxonomy(projectTaxonomy)
+      setSelectedLabel(projectTaxonomy[0].name)
+      if (mergeItems.length > 0) {
+        resetAnnotations(mine)
+        markSaved(data.name, base)
+        setMergeConflict({ theirs: mappedAnnotations, version: data.updated_at, items: mergeItems })
+      } else {
+        resetAnnotations(mappedAnnotations)
+        markSaved(data.name, mappedAnnotations)
+      }
+      toast("Project loaded", { description: `Project '${data.name}' loaded from server.` })
+      setIsProjectsOpen(false)
+      // Gọi thêm API predict/model
+      // Images never run through the models have none yet
+      const predictData = await fetchModelPredictions(projectId).catch(() => null)
+      if (predictData) {
+        setPredictResults(prev => ({ ...prev, [projectId]: predictData.predicted_labels }))
+      }
+      setExpandedProject(projectId)
+    } catch (err) {
+      // Images added in this browser (batch upload, paste) exist only locally until they are saved
+      const local = savedProjects.find((project) => project.id === projectId)
+      if (local?.image.startsWith("data:")) {
+        loadProject(local)
+        return
+      }
+      toast("Failed to load project", { description: getErrorMessage(err) })
+    }
+  }, [resetAnnotations, markSaved, savedProjects, loadProject, takeConflict])
+
+  const currentDataset = findDatasetOfProject(datasets, currentProjectId)
+
+  // Dataset status counts boxes, so the open image counts with its unsaved boxes
+  const datasetProjects = useMemo(
+    () => savedProjects.map((project) => (project.id === currentProjectId ? { ...project, annotations } : project)),
+    [savedProjects, currentProjectId, annotations],
+  )
+
+  const openProject = useCallback(
+    (projectId: string) => replaceProject(() => openServerProject(projectId)),
+    [replaceProject, openServerProject],
+  )
+
+  // Step through the open dataset, or the server's image list outside one (wrapping around at either end)
+  const openAdjacentProject = useCallback((step: 1 | -1) => {
+    if (currentDataset) {
+      const next = getAdjacentProjectId(currentDataset, currentProjectId, step)
+      if (next && next !== currentProjectId) openProject(next)
+      return
+    }
+    if (savedProjects.length === 0) return
+    const index = savedProjects.findIndex((project) => project.id === currentProjectId)
+    const next = index < 0 && step < 0 ? savedProjects.length - 1 : (index + step + savedProjects.length) % savedProjects.length
+    openProject(savedProjects[next].id)
+  }, [currentDataset, savedProjects, currentProjectId, openProject])
+
+  const openNextUnlabeled = useCallback(() => {
+    if (!currentDataset) return
+    const next = findNextUnlabeled(currentDataset, datasetProjects, currentProjectId)
+    if (next) {
+      openProject(next)
+    } else {
+      toast("All images are labeled", { description: `Every image in "${currentDataset.name}" has annotations.` })
+    }
+  }, [currentDataset, datasetProjects, currentProjectId, openProject])
+
+  const toggleReviewed = useCallback(() => {
+    if (!currentDataset || !currentProjectId) return
+    const reviewed = !currentDataset.reviewedIds.includes(currentProjectId)
+    updateDatasets((prev) => setProjectReviewed(prev, currentProjectId, reviewed))
+    toast(reviewed ? "Marked as reviewed" : "Review mark removed", { description: currentProjectName })
+  }, [currentDataset, currentProjectId, currentProjectName, updateDatasets])
+
+  const addDataset = useCallback(() => {
+    const name = newDatasetName.trim()
+    if (!name) return
+    updateDatasets((prev) => [...prev, createDataset(name)])
+    setNewDatasetName("")
+    toast("Dataset created", { description: `Add images to "${name}" from their project cards.` })
+  }, [newDatasetName, updateDatasets])
+
+  // Only the grouping is deleted; the images stay as projects
+  const deleteDataset = useCallback((dataset: Dataset) => {
+    updateDatasets((prev) => prev.filter((d) => d.id !== dataset.id))
+    toast("Dataset deleted", { description: `"${dataset.name}" was removed. Its images are still in Projects.` })
+  }, [updateDatasets])
+
+  // User remapped shortcuts live in the browser, not in a project
+  useEffect(() => {
+    setShortcutBindings(loadShortcutBindings())
+  }, [])
 
-    // Simulate API call
-    setTimeout(() => {
-      const mockPredictions: Annotation[] = [
-        {
-          id: `pred-${Date.now()}-1`,
-          x: 50,
-          y: 100,
-          width: 120,
-          height: 40,
-          label: "Button",
-        },
-        {
-          id: `pred-${Date.now()}-2`,
-          x: 200,
-          y: 150,
-          width: 180,
-          height: 35,
-          label: "Input",
-        },
-      ]
+  const handleShortcutsSave = useCallback((bindings: ShortcutBindings) => {
+    setShortcutBindings(bindings)
+    saveShortcutBindings(bindings)
+    toast("Shortcuts updated", { description: "Your key bindings are saved in this browser." })
+  }, [])
 
-      setAnnotations((prev) => [...prev, ...mockPredictions])
-      toast("Prediction completed", {
-        description: `Found ${mockPredictions.length} UI elements.`,
-      })
-    }, 2000)
-  }, [image])
+  useShortcuts(shortcutBindings, {
+    undo: handleUndo,
+    redo: handleRedo,
+    copy: () => {
+      // Leave text selected on the page to the browser
+      if (selectedIds.length === 0 || window.getSelection()?.toString()) return false
+      copySelection()
+    },
+    paste: (e) => {
+      // Ctrl+V is left to the browser's paste event, which knows whether a screenshot was copied since
+      if (eventToCombo(e) === NATIVE_PASTE_COMBO || !clipboardRef.current) return false
+      pasteClipboard()
+    },
+    deleteSelection: () => {
+      if (selectedIds.length === 0) return false
+      deleteSelection()
+    },
+    cancel: () => {
+      if (isDrawing) {
+        setIsDrawing(false)
+        setStartPoint(null)
+        setCurrentBox(null)
+      } else if (marquee) {
+        setMarquee(null)
+      } else if (dragState) {
+        previewAnnotations(dragState.snapshot)
+        setDragState(null)
+      } else {
+        return false
+      }
+    },
+    toggleMagic: () => {
+      if (!image) return false
+      setTool(tool === "magic" ? "draw" : "magic")
+      setMagicProposal(null)
+    },
+    findRegions: () => {
+      if (!image || isFindingRegions) return false
+      findRegions()
+    },
+    fitToScreen: () => {
+      if (!image) return false
+      fitToScreen()
+    },
+    togglePredictions: () => {
+      if (predictionModels.length === 0) return false
+      setPredictionLayer((prev) => ({ ...prev, visible: !prev.visible }))
+    },
+    save: () => {
+      if (!image || !currentProjectName || isUploading) return false
+      saveProject()
+    },
+    updateGroundTruth: () => {
+      if (!currentProjectId || isUpdating || !image || !currentProjectName) return false
+      updateGroundTruth()
+    },
+    predict: () => {
+      if (!image) return false
+      requestPrediction()
+    },
+    export: () => {
+      if (annotations.length === 0) return false
+      exportAnnotations()
+    },
+    nextImage: () => openAdjacentProject(1),
+    previousImage: () => openAdjacentProject(-1),
+    nextUnlabeled: () => {
+      if (!currentDataset) return false
+      openNextUnlabeled()
+    },
+    toggleReviewed: () => {
+      if (!currentDataset) return false
+      toggleReviewed()
+    },
+    showShortcuts: () => setIsShortcutsOpen(true),
+  })
 
   // Function to handle navigation with unsaved changes
   const handleNavigation = useCallback((href: string) => {
     if (hasUnsavedChanges) {
-      setPendingNavigation(href)
+      setPendingNavigation({ kind: "url", href })
       setIsUnsavedChangesDialogOpen(true)
       return false
     }
     return true
   }, [hasUnsavedChanges])
 
+  const continueNavigation = useCallback(() => {
+    setPendingNavigation(null)
+    if (pendingNavigation?.kind === "url") window.location.href = pendingNavigation.href
+    if (pendingNavigation?.kind === "replace") pendingNavigation.replace()
+  }, [pendingNavigation])
+
   // Function to handle save and continue navigation
   const handleSaveAndNavigate = useCallback(async () => {
-    if (image && currentProjectName && currentProjectId) {
-      try {
-        // Convert base64 image to File object
-        const imageFile = base64ToFile(image, `${currentProjectName}.png`)
-        
-        // Prepare ground truth data
-        const groundTruth = {
-          project_name: currentProjectName,
-          annotations: [],
-          total_annotations: 0,
-          created_at: new Date().toISOString(),
-        }
-
-        // Upload to backend
-        const uploadResult = await uploadImageToBackend(imageFile, groundTruth)
-
-        // Update local storage with MinIO URL
-        const projectData: SavedProject = {
-          id: currentProjectId,
-          name: currentProjectName,
-          image: uploadResult.image_url, // Use MinIO URL instead of base64
-          annotations: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        }
-
-        setSavedProjects((prev) => {
-          const existingIndex = prev.findIndex((p) => p.id === currentProjectId)
-          if (existingIndex >= 0) {
-            const updated = [...prev]
-            updated[existingIndex] = { ...projectData, createdAt: prev[existingIndex].createdAt }
-            return updated
-          } else {
-            return [...prev, projectData]
-          }
-        })
-
-        setHasUnsavedChanges(false)
-        setIsUnsavedChangesDialogOpen(false)
-        setPendingNavigation(null)
-        
-        toast("Project auto-saved and uploaded", {
-          description: `"${currentProjectName}" has been saved with empty annotations and uploaded to server.`,
-        })
-
-        // Navigate after saving
-        if (pendingNavigation) {
-          window.location.href = pendingNavigation
-        }
-      } catch (error) {
-        console.error('Auto-save error:', error)
-        // Fallback to local save only
-        const projectData: SavedProject = {
-          id: currentProjectId,
-          name: currentProjectName,
-          image,
-          annotations: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        }
-
-        setSavedProjects((prev) => {
-          const existingIndex = prev.findIndex((p) => p.id === currentProjectId)
-          if (existingIndex >= 0) {
-            const updated = [...prev]
-            updated[existingIndex] = { ...projectData, createdAt: prev[existingIndex].createdAt }
-            return updated
-          } else {
-            return [...prev, projectData]
-          }
-        })
-
-        setHasUnsavedChanges(false)
-        setIsUnsavedChangesDialogOpen(false)
-        setPendingNavigation(null)
-
-        toast("Project auto-saved locally", {
-          description: `"${currentProjectName}" has been saved locally (upload failed).`,
-        })
+    // saveProject falls back to a local save when the upload fails, so leaving afterwards loses nothing
+    await saveProject()
+    setIsUnsavedChangesDialogOpen(false)
 
-        // Navigate after saving
-        if (pendingNavigation) {
-          window.location.href = pendingNavigation
-        }
-      }
-    }
-  }, [image, currentProjectName, currentProjectId, uploadImageToBackend, base64ToFile, pendingNavigation])
+    // Navigate after saving
+    continueNavigation()
+  }, [saveProject, continueNavigation])
 
   // Function to handle discard and continue navigation
   const handleDiscardAndNavigate = useCallback(() => {
-    setHasUnsavedChanges(false)
+    // Nothing left to warn about on the way out
+    markSaved(currentProjectName, annotations)
     setIsUnsavedChangesDialogOpen(false)
     
     // Navigate without saving
-    if (pendingNavigation) {
-      window.location.href = pendingNavigation
-    }
-  }, [pendingNavigation])
+    continueNavigation()
+  }, [continueNavigation, markSaved, currentProjectName, annotations])
 
+  // Only predictions of the open image are of interest; opening another one resubscribes
   useEffect(() => {
-    const eventSource = new EventSource('/webhook/predict');
-    eventSource.onmessage = (event) => {
-      const { image_id, model, result } = JSON.parse(event.data);
-      toast(
-        `Image ${image_id} has been predicted by model ${model}: ${result}`,
-        {
-          duration: 8000,
-          style: { border: '2px solid #3b82f6' }
-        }
-      );
+    setRunningPredictions({})
+    if (!currentProjectId) return
+    const eventSource = new EventSource(predictStreamUrl({ imageIds: [currentProjectId] }));
+    eventSource.onmessage = (message) => {
+      const event: PredictStreamEvent = JSON.parse(message.data);
+      // One toast per model run, updated as the run goes on
+      const toastId = `predict-${event.image_id}-${event.model}`
+      const finish = () =>
+        setRunningPredictions((prev) => Object.fromEntries(Object.entries(prev).filter(([model]) => model !== event.model)))
+
+      switch (event.type) {
+        case "queued":
+        case "started":
+          setRunningPredictions((prev) => ({ ...prev, [event.model]: prev[event.model] ?? null }))
+          toast.loading(`${event.model}: ${event.type === "queued" ? "waiting to start" : "predicting"}`, { id: toastId })
+          break
+        case "progress":
+          setRunningPredictions((prev) => ({ ...prev, [event.model]: event.progress }))
+          toast.loading(`${event.model}: predicting ${Math.round(event.progress * 100)}%`, { id: toastId })
+          break
+        case "completed":
+          finish()
+          toast.success(`${event.model} finished`, { id: toastId, description: describeCompletion(event), duration: 8000 })
+          // Show the new boxes without having to reopen the image
+          fetchModelPredictions(event.image_id)
+            .then((data) => setPredictResults((prev) => ({ ...prev, [event.image_id]: data.predicted_labels })))
+            .catch((error) => console.error("Error refreshing predictions:", error))
+          break
+        case "failed":
+          finish()
+          toast.error(`${event.model} failed`, { id: toastId, description: event.error, duration: 8000 })
+          break
+        case "rate_limited":
+          finish()
+          toast.error("Rate limit exceeded", {
+            id: toastId,
+            description: `${event.model} can run on this image again in ${Math.ceil(event.retry_after_seconds)} seconds.`,
+          })
+          break
+      }
     };
     return () => eventSource.close();
-  }, []);
+  }, [currentProjectId]);
+
+  const runningModels = Object.keys(runningPredictions)
+  // e.g. "yolo 40%, detr"
+  const runningSummary = runningModels
+    .map((model) => {
+      const progress = runningPredictions[model]
+      return progress === null ? model : `${model} ${Math.round(progress * 100)}%`
+    })
+    .join(", ")
 
   return (
     <div className="flex flex-col h-screen w-full">
@@ -720,22 +2357,7 @@ export default function UIAnnotationApp() {
             )} */}
             {/* Nút New Project thay cho Upload */}
             <Button
-              onClick={() => {
-                setImage(null)
-                setCurrentProjectName("")
-                setCurrentProjectId(null)
-                setAnnotations([])
-                setSelectedAnnotation(null)
-                setIsDrawing(false)
-                setStartPoint(null)
-                setCurrentBox(null)
-                setSelectedLabel("Button")
-                setIsAnnotationsOpen(false)
-                setIsProjectsOpen(false)
-                setIsNameDialogOpen(false)
-                setProjectName("")
-                setPendingImageFile(null)
-              }}
+              onClick={() => replaceProject(startNewProject)}
               variant="outline"
               size="sm"
               className="hidden sm:flex"
@@ -744,67 +2366,109 @@ export default function UIAnnotationApp() {
               New Project
             </Button>
             {/* Nút New Project cho mobile */}
-            <Button onClick={() => {
-                setImage(null)
-                setCurrentProjectName("")
-                setCurrentProjectId(null)
-                setAnnotations([])
-                setSelectedAnnotation(null)
-                setIsDrawing(false)
-                setStartPoint(null)
-                setCurrentBox(null)
-                setSelectedLabel("Button")
-                setIsAnnotationsOpen(false)
-                setIsProjectsOpen(false)
-                setIsNameDialogOpen(false)
-                setProjectName("")
-                setPendingImageFile(null)
-              }} variant="outline" size="sm" className="sm:hidden">
+            <Button onClick={() => replaceProject(startNewProject)} variant="outline" size="sm" className="sm:hidden">
               <Plus className="h-4 w-4" />
             </Button>
             {/* Label Selector */}
-            <Select value={selectedLabel} onValueChange={(value: Annotation["label"]) => setSelectedLabel(value)}>
-              <SelectTrigger className="w-[120px] h-9 px-3">
+            <Select value={selectedLabel} onValueChange={setSelectedLabel}>
+              <SelectTrigger className="w-[140px] h-9 px-3">
                 {" "}
                 {/* Đã cập nhật kích thước */}
                 <SelectValue placeholder="Label" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="Button">Button</SelectItem>
-                <SelectItem value="Input">Input</SelectItem>
-                <SelectItem value="Radio">Radio</SelectItem>
-                <SelectItem value="Drop">Drop</SelectItem>
+                {taxonomy.map((def) => (
+                  <SelectItem key={def.id} value={def.name}>
+                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: def.color }} />
+                    {def.name}
+                    {def.hotkey && <span className="ml-auto text-xs text-muted-foreground">{def.hotkey}</span>}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <Button onClick={() => setIsTaxonomyOpen(true)} variant="ghost" size="sm" title="Edit labels">
+              <Tags className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => setIsShortcutsOpen(true)}
+              variant="ghost"
+              size="sm"
+              title={`Keyboard shortcuts${shortcutHint(shortcutBindings, "showShortcuts")}`}
+            >
+              <Keyboard className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => {
+                setTool(tool === "magic" ? "draw" : "magic")
+                setMagicProposal(null)
+              }}
+              disabled={!image}
+              variant={tool === "magic" ? "secondary" : "ghost"}
+              size="sm"
+              title={`Magic box: click inside an element to box it${shortcutHint(shortcutBindings, "toggleMagic")}`}
+            >
+              <Wand2 className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={tightenSelectedAnnotation}
+              disabled={!selectedAnnotation}
+              variant="ghost"
+              size="sm"
+              title="Tighten selected box to the element's edges"
+            >
+              <Shrink className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => setIsGridDialogOpen(true)}
+              disabled={selectedIds.length === 0}
+              variant="ghost"
+              size="sm"
+              title="Duplicate selection as grid"
+            >
+              <Grid3x3 className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={findRegions}
+              disabled={!image || isFindingRegions}
+              variant={candidates.length > 0 ? "secondary" : "ghost"}
+              size="sm"
+              title={`Find candidate regions in the whole image${shortcutHint(shortcutBindings, "findRegions")}`}
+            >
+              <ScanSearch className={cn("h-4 w-4", isFindingRegions && "animate-pulse")} />
+            </Button>
+            <Button
+              onClick={() => {
+                selectAnnotation(null)
+                setIsComparisonOpen(true)
+              }}
+              disabled={!imageSize || predictionModels.length === 0}
+              variant="ghost"
+              size="sm"
+              title="Compare ground truth with each model side by side"
+            >
+              <Columns2 className="h-4 w-4" />
+            </Button>
             {/* Các nút hành động chính */}
-            <Button onClick={async () => {
-  if (!currentProjectId) return
-  try {
-    const response = await fetch(`http://localhost:8080/api/v1/images/${currentProjectId}/predict`, {
-      method: 'GET'
-    })
-    if (response.status === 429) {
-      const data = await response.json()
-      toast.error(
-        'Rate limit exceeded',
-        {
-          description: `You can only request prediction for this image every 5 minutes. Please try again after ${data.retry_after_seconds || '?'} seconds.`,
-          style: { background: '#fee2e2', color: '#b91c1c', border: '1px solid #f87171' },
-          icon: '⏳',
-        }
-      )
-      return
-    }
-    if (!response.ok) throw new Error('Prediction request failed')
-    toast('Prediction started', { description: 'Image has been sent to models for automatic labeling.' })
-  } catch (err) {
-    toast('Prediction failed', { description: err instanceof Error ? err.message : 'Unknown error' })
-  }
-}} disabled={!image} variant="secondary" size="sm">
-  <Zap className="mr-2 h-4 w-4" />
-  <span className="hidden sm:inline">Predict</span>
+            <Button
+              onClick={requestPrediction}
+              disabled={!image}
+              variant="secondary"
+              size="sm"
+              title={
+                runningModels.length > 0
+                  ? `Running: ${runningSummary}`
+                  : `Predict${shortcutHint(shortcutBindings, "predict")}`
+              }
+            >
+  <Zap className={cn("mr-2 h-4 w-4", runningModels.length > 0 && "animate-pulse")} />
+  <span className="hidden sm:inline">{runningModels.length > 0 ? "Predicting..." : "Predict"}</span>
 </Button>
-            <Button onClick={saveProject} disabled={!image || !currentProjectName || isUploading} size="sm">
+            <Button
+              onClick={saveProject}
+              disabled={!image || !currentProjectName || isUploading}
+              size="sm"
+              title={`Save${shortcutHint(shortcutBindings, "save")}`}
+            >
               {isUploading ? (
                 <>
                   <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
@@ -817,62 +2481,22 @@ export default function UIAnnotationApp() {
                 </>
               )}
             </Button>
+            {hasUnsavedChanges && unsavedChanges && (
+              <Badge
+                variant="outline"
+                className="gap-1.5 border-amber-300 text-amber-700"
+                title={`${describeChanges(unsavedChanges)}${draftSavedAt ? ` · draft autosaved at ${new Date(draftSavedAt).toLocaleTimeString()}` : ""}`}
+              >
+                <span className="h-2 w-2 rounded-full bg-amber-500" />
+                Unsaved
+              </Badge>
+            )}
             {/* Nút Update chỉ hiện khi đang mở project đã có */}
             {currentProjectId && (
               <Button
-                onClick={async () => {
-                  setIsUpdating(true)
-                  try {
-                    // Map annotations sang format API
-                    const elements = annotations.map(ann => {
-                      if (ann.label === "Button") {
-                        return {
-                          type: "button",
-                          text: "Button",
-                          position: { x: ann.x, y: ann.y },
-                          width: ann.width,
-                          height: ann.height
-                        }
-                      } else if (ann.label === "Input") {
-                        return {
-                          type: "input",
-                          placeholder: "Input",
-                          position: { x: ann.x, y: ann.y },
-                          width: ann.width,
-                          height: ann.height
-                        }
-                      } else if (ann.label === "Radio") {
-                        return {
-                          type: "radio",
-                          position: { x: ann.x, y: ann.y },
-                          width: ann.width,
-                          height: ann.height
-                        }
-                      } else if (ann.label === "Drop") {
-                        return {
-                          type: "drop",
-                          position: { x: ann.x, y: ann.y },
-                          width: ann.width,
-                          height: ann.height
-                        }
-                      }
-                    })
-                    const response = await fetch(`http://localhost:8080/api/v1/images/${currentProjectId}/ground-truth`, {
-                      method: "PUT",
-                      headers: { "Content-Type": "application/json" },
-                      body: JSON.stringify({ ground_truth: { elements } })
-                    })
-                    if (!response.ok) throw new Error(`Update failed: ${response.status}`)
-                    // const data = await response.json()
-                    toast("Project updated!", { description: "Annotations have been updated on server." })
-                    // Không setAnnotations từ API response, giữ nguyên UI
-                  } catch (err) {
-                    toast("Update failed", { description: err instanceof Error ? err.message : "Unknown error" })
-                  } finally {
-                    setIsUpdating(false)
-                  }
-                }}
+                onClick={() => updateGroundTruth()}
                 disabled={isUpdating || !image || !currentProjectName}
+                title={`Update ground truth${shortcutHint(shortcutBindings, "updateGroundTruth")}`}
                 variant="secondary"
                 size="sm"
               >
@@ -889,13 +2513,37 @@ export default function UIAnnotationApp() {
                 )}
               </Button>
             )}
-            <Button onClick={exportAnnotations} disabled={annotations.length === 0} variant="outline" size="sm">
+            <Button
+              onClick={exportAnnotations}
+              disabled={annotations.length === 0}
+              variant="outline"
+              size="sm"
+              title={`Export${shortcutHint(shortcutBindings, "export")}`}
+            >
               <Upload className="mr-2 h-4 w-4" />
               <span className="hidden sm:inline">Export</span>
             </Button>
             <Button onClick={clearAllAnnotations} disabled={annotations.length === 0} variant="outline" size="sm">
               <Trash2 className="h-4 w-4" />
             </Button>
+            <Button
+              onClick={handleUndo}
+              disabled={!canUndo}
+              variant="ghost"
+              size="sm"
+              title={`${undoLabel ? `Undo ${undoLabel}` : "Undo"}${shortcutHint(shortcutBindings, "undo")}`}
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={handleRedo}
+              disabled={!canRedo}
+              variant="ghost"
+              size="sm"
+              title={`${redoLabel ? `Redo ${redoLabel}` : "Redo"}${shortcutHint(shortcutBindings, "redo")}`}
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
           </div>
 
           {/* Nhóm bên phải: Badge, Annotations Sheet, Projects Sheet */}
@@ -917,25 +2565,99 @@ export default function UIAnnotationApp() {
               <SheetContent>
                 <SheetHeader>
                   <SheetTitle>Annotations ({annotations.length})</SheetTitle>
-                  <SheetDescription>List of all labeled elements in the image</SheetDescription>
+                  <SheetDescription>
+                    List of all labeled elements in the image. Drag a row onto a container to group it, Shift-click
+                    rows to select several.
+                  </SheetDescription>
                 </SheetHeader>
+                {selectedAnnotations.length > 1 && (
+                  <SelectionPanel
+                    selection={selectedAnnotations}
+                    taxonomy={taxonomy}
+                    onRelabel={(label) => relabelAnnotations(selectedIds, label)}
+                    onCopy={copySelection}
+                    onDuplicateAsGrid={() => setIsGridDialogOpen(true)}
+                    onDelete={deleteSelection}
+                    onClose={() => selectAnnotation(null)}
+                    className="mt-4 w-full shadow-none"
+                  />
+                )}
                 <div className="mt-6 space-y-2">
-                  {annotations.map((annotation, index) => (
-                    <div key={annotation.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  {annotationTree.map(({ annotation, depth }) => (
+                    <div
+                      key={annotation.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move"
+                        setDraggedRowId(annotation.id)
+                      }}
+                      onDragEnd={() => setDraggedRowId(null)}
+                      onDragOver={(e) => {
+                        if (draggedRowId && draggedRowId !== annotation.id && isContainerLabel(taxonomy, annotation.label)) {
+                          e.preventDefault()
+                        }
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault()
+                        if (draggedRowId) reparentAnnotation(draggedRowId, annotation.id)
+                        setDraggedRowId(null)
+                      }}
+                      onClick={(e) => (e.shiftKey ? toggleSelection(annotation.id) : selectAnnotation(annotation.id))}
+                      className={`flex items-center justify-between p-3 border rounded-lg cursor-pointer ${
+                        selectedIds.includes(annotation.id) ? "border-primary bg-muted/50" : ""
+                      }`}
+                      style={{ marginLeft: depth * 16 }}
+                    >
                       <div className="flex items-center gap-2">
-                        <Badge variant={LABEL_VARIANTS[annotation.label]}>{annotation.label}</Badge>
-                        <span className="text-sm">#{index + 1}</span>
+                        {depth > 0 && <span className="text-muted-foreground">└</span>}
+                        <Badge
+                          className="border-transparent text-white"
+                          style={{ backgroundColor: getLabelColor(taxonomy, annotation.label) }}
+                        >
+                          {annotation.label}
+                        </Badge>
+                        <span className="text-sm">#{annotations.indexOf(annotation) + 1}</span>
+                      </div>
+                      <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                        <Select
+                          value={annotation.label}
+                          onValueChange={(value) => relabelAnnotations([annotation.id], value)}
+                        >
+                          <SelectTrigger size="sm" className="h-7 w-[100px] px-2 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {taxonomy.map((def) => (
+                              <SelectItem key={def.id} value={def.name}>
+                                {def.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          onClick={() => deleteAnnotation(annotation.id)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
                       </div>
-                      <Button
-                        onClick={() => deleteAnnotation(annotation.id)}
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
                     </div>
                   ))}
+                  {draggedRowId && annotations.find((ann) => ann.id === draggedRowId)?.parentId && (
+                    <div
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault()
+                        reparentAnnotation(draggedRowId, undefined)
+                        setDraggedRowId(null)
+                      }}
+                      className="p-3 text-center text-xs text-muted-foreground border border-dashed rounded-lg"
+                    >
+                      Drop here to move to the top level
+                    </div>
+                  )}
                   {annotations.length === 0 && (
                     <div className="p-4 text-center text-sm text-muted-foreground">
                       No annotations yet. Upload an image and start drawing boxes.
@@ -951,6 +2673,11 @@ export default function UIAnnotationApp() {
                 <Button variant="outline" size="sm">
                   <FolderOpen className="h-4 w-4" />
                   <span className="hidden sm:ml-2 sm:inline">Projects</span>
+                  {pendingSyncCount > 0 && (
+                    <span className="ml-1 rounded-full bg-amber-500 px-1.5 text-[10px] font-semibold text-white" title="Changes waiting for the server">
+                      {pendingSyncCount}
+                    </span>
+                  )}
                 </Button>
               </SheetTrigger>
               <SheetContent className="w-[400px] sm:w-[540px] px-0">
@@ -975,6 +2702,17 @@ export default function UIAnnotationApp() {
                           </svg>
                         )}
                       </Button>
+                      <Button
+                        onClick={syncNow}
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        disabled={isSyncing || pendingSyncCount === 0}
+                        title={pendingSyncCount > 0 ? `${pendingSyncCount} change${pendingSyncCount !== 1 ? "s" : ""} waiting for the server` : "Everything is synced"}
+                      >
+                        <RefreshCw className={cn("mr-1 h-3.5 w-3.5", isSyncing && "animate-spin")} />
+                        Sync now{pendingSyncCount > 0 && ` (${pendingSyncCount})`}
+                      </Button>
                     </div>
                     {/* Nút X đóng panel giữ nguyên */}
                   </div>
@@ -990,6 +2728,55 @@ export default function UIAnnotationApp() {
                     </div>
                   ) : (
                     <>
+                      {/* Datasets */}
+                      <div className="space-y-2 rounded-2xl border border-gray-100 p-4">
+                        <div className="flex items-center gap-2">
+                          <Layers className="h-4 w-4" />
+                          <span className="font-semibold">Datasets ({datasets.length})</span>
+                        </div>
+                        {datasets.map((dataset) => (
+                          <div key={dataset.id} className="flex items-center gap-2">
+                            <div className="min-w-0 flex-1">
+                              <div className="flex items-center gap-2">
+                                <span className="truncate text-sm font-medium">{dataset.name}</span>
+                                <span className="text-xs text-muted-foreground">{dataset.projectIds.length} images</span>
+                              </div>
+                              <DatasetProgressBar progress={getDatasetProgress(dataset, datasetProjects)} />
+                            </div>
+                            <Button
+                              onClick={() =>
+                                openProject(findNextUnlabeled(dataset, datasetProjects, null) ?? dataset.projectIds[0])
+                              }
+                              disabled={dataset.projectIds.length === 0}
+                              variant="outline"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Open at the first unlabeled image"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button onClick={() => deleteDataset(dataset)} variant="outline" size="icon" className="h-8 w-8" title="Delete dataset (keeps its images)">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <div className="flex gap-2">
+                          <Input
+                            value={newDatasetName}
+                            onChange={(e) => setNewDatasetName(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") addDataset()
+                            }}
+                            placeholder="New dataset name..."
+                            className="h-8"
+                          />
+                          <Button onClick={addDataset} disabled={!newDatasetName.trim()} variant="outline" size="sm" className="h-8">
+                            <Plus className="mr-1 h-4 w-4" />
+                            Add
+                          </Button>
+                        </div>
+                      </div>
+
                       {savedProjects.map((project) => (
                         <Card key={project.id} className="p-4 rounded-2xl shadow border border-gray-100 flex flex-row items-center gap-4 mb-2 relative">
                           <img
@@ -1001,45 +2788,7 @@ export default function UIAnnotationApp() {
                             <div className="flex items-center justify-between gap-2">
                               <span className="font-semibold text-base truncate max-w-[140px]">{project.name}</span>
                               <div className="flex gap-1">
-                                <Button onClick={async () => {
-  try {
-    const response = await fetch(`http://localhost:8080/api/v1/images/${project.id}`)
-    if (!response.ok) throw new Error('Failed to fetch project detail')
-    const data = await response.json()
-    // Mapping ground_truth.elements về annotation frontend
-    const elements = data.ground_truth?.elements || []
-    const mappedAnnotations = elements.map((el: any, idx: number) => {
-      let label = "Button"
-      if (el.type === "button") label = "Button"
-      else if (el.type === "input") label = "Input"
-      else if (el.type === "radio") label = "Radio"
-      else if (el.type === "drop") label = "Drop"
-      return {
-        id: `${el.type}-${el.position?.x || 0}-${el.position?.y || 0}-${idx}`,
-        x: el.position?.x || 0,
-        y: el.position?.y || 0,
-        width: el.width || 60,
-        height: el.height || 30,
-        label,
-      }
-    })
-    setImage(data.image_url)
-    setCurrentProjectName(data.name)
-    setCurrentProjectId(data.id)
-    setAnnotations(mappedAnnotations)
-    toast("Project loaded", { description: `Project '${data.name}' loaded from server.` })
-    setIsProjectsOpen(false)
-    // Gọi thêm API predict/model
-    const predictRes = await fetch(`http://localhost:8080/api/v1/images/${project.id}/predict/model`)
-    if (predictRes.ok) {
-      const predictData = await predictRes.json()
-      setPredictResults(prev => ({ ...prev, [project.id]: predictData.predicted_labels }))
-    }
-    setExpandedProject(project.id)
-  } catch (err) {
-    toast("Failed to load project", { description: err instanceof Error ? err.message : "Unknown error" })
-  }
-}} variant="outline" size="icon" className="h-8 w-8">
+                                <Button onClick={() => openProject(project.id)} variant="outline" size="icon" className="h-8 w-8">
   <Eye className="h-4 w-4" />
 </Button>
 <Button onClick={() => setExpandedProject(expandedProject === project.id ? null : project.id)} variant="ghost" size="icon" className="h-8 w-8">
@@ -1050,23 +2799,12 @@ export default function UIAnnotationApp() {
     <span className="font-medium">Model predictions:</span>{' '}
     {predictResults[project.id]
       ? Object.entries(predictResults[project.id]).map(
-          ([model, value]: [string, any]) => `${model}: ${value.elements.length} elements`
+          ([model, value]) => `${model}: ${value.elements.length} elements`
         ).join(' | ')
       : 'No prediction results.'}
   </div>
 )}
-                                <Button onClick={async () => {
-  try {
-    const response = await fetch(`http://localhost:8080/api/v1/images/${project.id}`, {
-      method: 'DELETE'
-    })
-    if (!response.ok) throw new Error('Failed to delete project')
-    toast('Project deleted', { description: 'Project has been deleted successfully.' })
-    await fetchProjectsFromAPI()
-  } catch (err) {
-    toast('Delete failed', { description: err instanceof Error ? err.message : 'Unknown error' })
-  }
-}} variant="outline" size="icon" className="h-8 w-8">
+                                <Button onClick={() => removeProject(project)} variant="outline" size="icon" className="h-8 w-8">
   <Trash2 className="h-4 w-4" />
 </Button>
                               </div>
@@ -1074,6 +2812,30 @@ export default function UIAnnotationApp() {
                             <div className="flex items-center gap-3 mt-1">
                               <span className="text-xs text-muted-foreground">{project.annotations.length} annotation{project.annotations.length !== 1 ? "s" : ""}</span>
                               <span className="text-xs text-muted-foreground">{new Date(project.updatedAt).toLocaleDateString()}</span>
+                              <SyncBadge
+                                status={getSyncStatus(outboxEntries, project.id, project.image)}
+                                error={outboxEntries.find((entry) => entry.projectId === project.id)?.lastError}
+                              />
+                              {datasets.length > 0 && (
+                                <Select
+                                  value={findDatasetOfProject(datasets, project.id)?.id ?? "none"}
+                                  onValueChange={(datasetId) =>
+                                    updateDatasets((prev) => assignProjectToDataset(prev, project.id, datasetId === "none" ? null : datasetId))
+                                  }
+                                >
+                                  <SelectTrigger className="ml-auto h-7 w-[130px] text-xs" aria-label="Dataset">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="none">No dataset</SelectItem>
+                                    {datasets.map((dataset) => (
+                                      <SelectItem key={dataset.id} value={dataset.id}>
+                                        {dataset.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
                             </div>
                           </div>
                         </Card>
@@ -1136,6 +2898,53 @@ export default function UIAnnotationApp() {
         </DialogContent>
       </Dialog>
 
+      <BatchUploadDialog
+        images={pendingBatch}
+        onCancel={() => setPendingBatch([])}
+        onCreate={(projects, datasetName) => replaceProject(() => createBatchProjects(projects, datasetName))}
+      />
+
+      <MergeConflictDialog
+        items={mergeConflict?.items ?? []}
+        onCancel={() => setMergeConflict(null)}
+        onResolve={resolveMerge}
+      />
+
+      <TaxonomyDialog
+        open={isTaxonomyOpen}
+        onOpenChange={setIsTaxonomyOpen}
+        taxonomy={taxonomy}
+        usage={labelUsage}
+        bindings={shortcutBindings}
+        onSave={handleTaxonomySave}
+      />
+
+      {isComparisonOpen && image && imageSize && currentPredictions && (
+        <ComparisonView
+          image={image}
+          imageSize={imageSize}
+          groundTruth={annotations}
+          predictions={currentPredictions}
+          taxonomy={taxonomy}
+          onClose={() => setIsComparisonOpen(false)}
+        />
+      )}
+
+      <ShortcutsDialog
+        open={isShortcutsOpen}
+        onOpenChange={setIsShortcutsOpen}
+        bindings={shortcutBindings}
+        taxonomy={taxonomy}
+        onSave={handleShortcutsSave}
+      />
+
+      <GridDuplicateDialog
+        open={isGridDialogOpen}
+        onOpenChange={setIsGridDialogOpen}
+        selectionCount={selectedIds.length}
+        onDuplicate={duplicateAsGrid}
+      />
+
       {/* Unsaved Changes Dialog */}
       <Dialog open={isUnsavedChangesDialogOpen} onOpenChange={setIsUnsavedChangesDialogOpen}>
         <DialogContent className="sm:max-w-md">
@@ -1149,7 +2958,7 @@ export default function UIAnnotationApp() {
               Unsaved Changes
             </DialogTitle>
             <DialogDescription className="text-left">
-              You haven't labeled anything yet. Do you want to save this project before leaving? If you save it, the project will be saved with empty annotations.
+              This project has changes that were not saved yet. Save them before leaving, or discard them.
             </DialogDescription>
           </DialogHeader>
           <div className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg my-4">
@@ -1160,7 +2969,10 @@ export default function UIAnnotationApp() {
             </div>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium truncate">{currentProjectName}</p>
-              <p className="text-xs text-muted-foreground">0 annotations</p>
+              <p className="text-xs text-muted-foreground">
+                {annotations.length} annotation{annotations.length !== 1 ? "s" : ""}
+                {unsavedChanges && ` · ${describeChanges(unsavedChanges)}`}
+              </p>
             </div>
           </div>
           <DialogFooter className="flex-col sm:flex-row gap-2">
@@ -1189,129 +3001,439 @@ export default function UIAnnotationApp() {
         </DialogContent>
       </Dialog>
 
+      {/* Draft Recovery Dialog */}
+      <Dialog open={!!recoverableDraft} onOpenChange={(open) => !open && setRecoverableDraft(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Restore unsaved work?</DialogTitle>
+            <DialogDescription className="text-left">
+              {recoverableDraft &&
+                `Changes to "${recoverableDraft.name}" from ${formatTimeAgo(recoverableDraft.savedAt)} were never saved.`}
+            </DialogDescription>
+          </DialogHeader>
+          {recoverableDraft && (
+            <div className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
+              <img src={recoverableDraft.image} alt="" className="h-12 w-16 rounded border object-cover" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{recoverableDraft.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {describeChanges(
+                    diffSnapshot(recoverableDraft.baseline, {
+                      name: recoverableDraft.name,
+                      annotations: recoverableDraft.annotations,
+                    }),
+                  )}
+                </p>
+              </div>
+            </div>
+          )}
+          <DialogFooter className="flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={discardDraft} className="w-full sm:w-auto">
+              Discard
+            </Button>
+            <Button onClick={restoreDraft} className="w-full sm:w-auto">
+              Restore
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Main Content Area */}
-      <div className="flex-1 flex flex-col min-h-0">
-        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleImageUpload} className="hidden" />
+      <div
+        className="relative flex-1 flex flex-col min-h-0"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return
+          e.preventDefault()
+          e.dataTransfer.dropEffect = "copy"
+          setIsDraggingFiles(true)
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false)
+        }}
+        onDrop={handleFilesDrop}
+      >
+        {isDraggingFiles && (
+          <div className="pointer-events-none absolute inset-2 z-40 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80">
+            <div className="text-center">
+              <Upload className="mx-auto h-10 w-10 text-primary" />
+              <p className="mt-2 text-sm font-semibold">Drop images to create projects</p>
+            </div>
+          </div>
+        )}
+        <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleImageUpload} className="hidden" />
 
         {!image ? (
           <Card className="h-full m-4">
             <CardContent className="flex h-full items-center justify-center">
               <div className="text-center">
                 <Upload className="mx-auto h-12 w-12 text-muted-foreground" />
-                <h3 className="mt-4 text-lg font-semibold">Upload an image</h3>
+                <h3 className="mt-4 text-lg font-semibold">Upload images</h3>
                 <p className="mt-2 text-sm text-muted-foreground">
-                  Click the upload button or drag and drop an image to start annotating
+                  Click the upload button, drag and drop images here or paste a screenshot (Ctrl+V) to start annotating.
+                  Several images create one project each.
                 </p>
                 <Button onClick={() => fileInputRef.current?.click()} className="mt-4">
                   <Upload className="mr-2 h-4 w-4" />
-                  Choose Image
+                  Choose Images
                 </Button>
               </div>
             </CardContent>
           </Card>
         ) : (
-          <div className="h-full overflow-auto p-4">
-            <div className="flex justify-center items-start min-h-full">
-              <div
-                ref={containerRef}
-                className="relative cursor-crosshair max-w-full"
-                onMouseDown={handleMouseDown}
-                onMouseMove={handleMouseMove}
-                onMouseUp={handleMouseUp}
-                style={{ display: "inline-block" }}
-              >
-                <img
-                  ref={imageRef}
-                  src={image || "/placeholder.svg"}
-                  alt="Annotation target"
-                  className="max-w-full max-h-[calc(100vh-8rem)] w-auto h-auto block object-contain"
-                  draggable={false}
-                />
+          <div className="relative flex-1 min-h-0">
+            <div
+              ref={containerRef}
+              className="absolute inset-0 overflow-hidden bg-muted/30 select-none"
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              style={{
+                cursor: panState
+                  ? "grabbing"
+                  : isSpacePressed
+                    ? "grab"
+                    : isAnalyzing
+                      ? "progress"
+                      : tool === "magic"
+                        ? "cell"
+                        : "crosshair",
+              }}
+            >
+              <img
+                ref={imageRef}
+                src={image || "/placeholder.svg"}
+                alt="Annotation target"
+                className="absolute block max-w-none"
+                onLoad={handleImageLoad}
+                draggable={false}
+                style={
+                  imageSize
+                    ? {
+                        left: view.pan.x,
+                        top: view.pan.y,
+                        width: imageSize.width * view.zoom,
+                        height: imageSize.height * view.zoom,
+                      }
+                    : { visibility: "hidden" }
+                }
+              />
+
+              {/* Candidate regions; only their tags take clicks so drawing over them still works */}
+              {imageSize && candidates.map((candidate, index) => {
+                const screenBox = imageToScreen(candidate, view)
+                const isActive = candidate.id === activeCandidateId
+                return (
+                  <div
+                    key={candidate.id}
+                    className={cn(
+                      "absolute border border-dashed pointer-events-none",
+                      isActive ? "border-2 border-primary bg-primary/10" : "border-muted-foreground/60",
+                    )}
+                    style={{ left: screenBox.x, top: screenBox.y, width: screenBox.width, height: screenBox.height }}
+                  >
+                    <button
+                      type="button"
+                      className={cn(
+                        "pointer-events-auto absolute -top-4 left-0 rounded px-1 text-[10px] leading-4",
+                        isActive ? "bg-primary text-primary-foreground" : "bg-muted-foreground/70 text-white",
+                      )}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onClick={() => setActiveCandidateId(candidate.id)}
+                    >
+                      {index + 1}
+                    </button>
+                    {isActive && (
+                      <div
+                        className="pointer-events-auto absolute top-full left-0 mt-1 flex items-center gap-1 whitespace-nowrap"
+                        onMouseDown={(e) => e.stopPropagation()}
+                      >
+                        <Button onClick={() => acceptCandidate(candidate.id, selectedLabel)} size="sm" className="h-7 px-2 text-xs">
+                          Add as {selectedLabel} (Enter)
+                        </Button>
+                        <Button onClick={() => dismissCandidate(candidate.id)} variant="outline" size="sm" className="h-7 px-2 text-xs">
+                          Dismiss (X)
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
 
-                {/* Existing annotations */}
-                {annotations.map((annotation) => (
+              {/* Existing annotations */}
+              {imageSize && annotationTree.map(({ annotation }) => {
+                const screenBox = imageToScreen(annotation, view)
+                return (
                   <div
                     key={annotation.id}
-                    className={`absolute border-2 ${LABEL_COLORS[annotation.label]} pointer-events-none`}
+                    className={cn(
+                      "absolute border-2 cursor-move",
+                      isContainerLabel(taxonomy, annotation.label) && "border-dashed",
+                      selectedIds.includes(annotation.id) && "ring-2 ring-offset-1 ring-primary",
+                      // A selected container stays below its children so they remain clickable
+                      selectedAnnotation === annotation.id && !isContainerLabel(taxonomy, annotation.label) && "z-10",
+                    )}
+                    onMouseDown={(e) => handleAnnotationMouseDown(e, annotation)}
                     style={{
-                      left: annotation.x,
-                      top: annotation.y,
-                      width: annotation.width,
-                      height: annotation.height,
-                      background: `repeating-linear-gradient(
-                      45deg,
-                      transparent,
-                      transparent 4px,
-                      ${
-                        annotation.label === "Button"
-                          ? "rgba(59, 130, 246, 0.1)"
-                          : annotation.label === "Input"
-                            ? "rgba(34, 197, 94, 0.1)"
-                            : annotation.label === "Radio"
-                              ? "rgba(168, 85, 247, 0.1)"
-                              : "rgba(249, 115, 22, 0.1)"
-                      } 4px,
-                      ${
-                        annotation.label === "Button"
-                          ? "rgba(59, 130, 246, 0.1)"
-                          : annotation.label === "Input"
-                            ? "rgba(34, 197, 94, 0.1)"
-                            : "rgba(168, 85, 247, 0.1)"
-                      } 8px
-                    )`,
+                      left: screenBox.x,
+                      top: screenBox.y,
+                      width: screenBox.width,
+                      height: screenBox.height,
+                      borderColor: getLabelColor(taxonomy, annotation.label),
+                      background: labelStripes(getLabelColor(taxonomy, annotation.label)),
                     }}
                   >
                     <div
-                      className={`absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded ${LABEL_BG_COLORS[annotation.label]}`}
+                      className="absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded whitespace-nowrap"
+                      style={{ backgroundColor: getLabelColor(taxonomy, annotation.label) }}
                     >
                       {annotation.label}
                     </div>
+
+                    {/* Resize handles for the selected box */}
+                    {selectedAnnotation === annotation.id &&
+                      RESIZE_HANDLES.map(({ handle, style, cursor }) => (
+                        <div
+                          key={handle}
+                          className="absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-sm border border-primary bg-background"
+                          style={{ ...style, cursor }}
+                          onMouseDown={(e) => handleAnnotationMouseDown(e, annotation, handle)}
+                        />
+                      ))}
                   </div>
-                ))}
+                )
+              })}
+
+              {/* Predictions of the chosen model: dotted, translucent and not editable */}
+              {imageSize && predictionBoxes.length > 0 && (
+                <div className="pointer-events-none absolute inset-0" style={{ opacity: predictionLayer.opacity }}>
+                  {predictionBoxes.map((prediction) => {
+                    // Reviewed boxes are either ground truth now or rejected; the one under review is drawn below
+                    if (review && (review.decisions[prediction.id] || prediction.id === reviewBox?.id)) return null
+                    const screenBox = imageToScreen(prediction, view)
+                    const color = getLabelColor(taxonomy, prediction.label)
+                    return (
+                      <div
+                        key={prediction.id}
+                        className="absolute border-2 border-dotted"
+                        style={{
+                          left: screenBox.x,
+                          top: screenBox.y,
+                          width: screenBox.width,
+                          height: screenBox.height,
+                          borderColor: color,
+                        }}
+                      >
+                        <div
+                          className="absolute top-full left-0 mt-0.5 rounded border bg-background px-1.5 text-[10px] italic whitespace-nowrap"
+                          style={{ borderColor: color, color }}
+                        >
+                          {prediction.label}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
 
-                {/* Current drawing box */}
-                {currentBox && (
+              {/* Predicted box under review */}
+              {reviewBox && reviewBoxScreen && (
+                <div
+                  className="absolute border-2 border-dotted ring-2 ring-primary ring-offset-2 animate-pulse pointer-events-none"
+                  style={{
+                    left: reviewBoxScreen.x,
+                    top: reviewBoxScreen.y,
+                    width: reviewBoxScreen.width,
+                    height: reviewBoxScreen.height,
+                    borderColor: getLabelColor(taxonomy, reviewBox.label),
+                    background: labelStripes(getLabelColor(taxonomy, reviewBox.label), 0.2),
+                  }}
+                >
                   <div
-                    className={`absolute border-2 border-dashed ${LABEL_COLORS[selectedLabel]} pointer-events-none`}
-                    style={{
-                      left: currentBox.x,
-                      top: currentBox.y,
-                      width: currentBox.width,
-                      height: currentBox.height,
-                      background: `repeating-linear-gradient(
-                      45deg,
-                      transparent,
-                      transparent 4px,
-                      ${
-                        selectedLabel === "Button"
-                          ? "rgba(59, 130, 246, 0.15)"
-                          : selectedLabel === "Input"
-                            ? "rgba(34, 197, 94, 0.15)"
-                            : selectedLabel === "Radio"
-                              ? "rgba(168, 85, 247, 0.15)"
-                              : "rgba(249, 115, 22, 0.15)"
-                      } 4px,
-                      ${
-                        selectedLabel === "Button"
-                          ? "rgba(59, 130, 246, 0.15)"
-                          : selectedLabel === "Input"
-                            ? "rgba(34, 197, 94, 0.15)"
-                            : "rgba(168, 85, 247, 0.15)"
-                      } 8px
-                    )`,
-                    }}
+                    className="pointer-events-auto absolute top-full left-0 mt-2 flex items-center gap-1 whitespace-nowrap"
+                    onMouseDown={(e) => e.stopPropagation()}
                   >
-                    <div
-                      className={`absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded ${LABEL_BG_COLORS[selectedLabel]}`}
-                    >
-                      {selectedLabel}
-                    </div>
+                    <Button onClick={() => decideReviewBox("accepted")} size="sm" className="h-7 px-2 text-xs">
+                      Accept as {reviewBox.label} (Enter)
+                    </Button>
+                    <Button onClick={() => decideReviewBox("accepted", undefined, true)} variant="outline" size="sm" className="h-7 px-2 text-xs">
+                      Adjust (D)
+                    </Button>
+                    <Button onClick={() => decideReviewBox("rejected")} variant="outline" size="sm" className="h-7 px-2 text-xs">
+                      Reject (X)
+                    </Button>
                   </div>
-                )}
+                </div>
+              )}
+
+              {/* Marquee selection */}
+              {marquee && (
+                <div
+                  className="absolute border border-primary bg-primary/10 pointer-events-none"
+                  style={{
+                    left: view.pan.x + marquee.box.x * view.zoom,
+                    top: view.pan.y + marquee.box.y * view.zoom,
+                    width: marquee.box.width * view.zoom,
+                    height: marquee.box.height * view.zoom,
+                  }}
+                />
+              )}
+
+              {/* Current drawing box */}
+              {currentBox && (
+                <div
+                  className="absolute border-2 border-dashed pointer-events-none"
+                  style={{
+                    left: view.pan.x + currentBox.x * view.zoom,
+                    top: view.pan.y + currentBox.y * view.zoom,
+                    width: currentBox.width * view.zoom,
+                    height: currentBox.height * view.zoom,
+                    borderColor: getLabelColor(taxonomy, selectedLabel),
+                    background: labelStripes(getLabelColor(taxonomy, selectedLabel), 0.15),
+                  }}
+                >
+                  <div
+                    className="absolute -top-6 left-0 px-2 py-1 text-xs text-white rounded whitespace-nowrap"
+                    style={{ backgroundColor: getLabelColor(taxonomy, selectedLabel) }}
+                  >
+                    {selectedLabel}
+                  </div>
+                </div>
+              )}
+
+              {/* Magic box proposal waiting for confirmation */}
+              {magicProposalScreen && (
+                <div
+                  className="absolute border-2 border-dashed animate-pulse"
+                  style={{
+                    left: magicProposalScreen.x,
+                    top: magicProposalScreen.y,
+                    width: magicProposalScreen.width,
+                    height: magicProposalScreen.height,
+                    borderColor: getLabelColor(taxonomy, selectedLabel),
+                    background: labelStripes(getLabelColor(taxonomy, selectedLabel), 0.2),
+                  }}
+                >
+                  <div
+                    className="absolute top-full left-0 mt-1 flex items-center gap-1 whitespace-nowrap"
+                    onMouseDown={(e) => e.stopPropagation()}
+                  >
+                    <Button onClick={confirmMagicProposal} size="sm" className="h-7 px-2 text-xs">
+                      Add as {selectedLabel} (Enter)
+                    </Button>
+                    <Button onClick={() => setMagicProposal(null)} variant="outline" size="sm" className="h-7 px-2 text-xs">
+                      Dismiss (Esc)
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Model prediction layer */}
+            {predictionModels.length > 0 && currentPredictions && (
+              <PredictionLayerControls
+                predictions={currentPredictions}
+                layer={predictionLayer}
+                onChange={setPredictionLayer}
+                onReview={startReview}
+                isReviewing={!!review}
+              />
+            )}
+
+            {/* Prediction review progress */}
+            {review && (
+              <PredictionReviewPanel
+                model={review.model}
+                position={review.index + 1}
+                total={predictionBoxes.length}
+                accepted={reviewCounts.accepted}
+                rejected={reviewCounts.rejected}
+                onExit={() => setReview(null)}
+              />
+            )}
+
+            {/* Bulk actions for several selected boxes */}
+            {selectedAnnotations.length > 1 && (
+              <SelectionPanel
+                selection={selectedAnnotations}
+                taxonomy={taxonomy}
+                onRelabel={(label) => relabelAnnotations(selectedIds, label)}
+                onCopy={copySelection}
+                onDuplicateAsGrid={() => setIsGridDialogOpen(true)}
+                onDelete={deleteSelection}
+                onClose={() => selectAnnotation(null)}
+                className="absolute top-4 right-4 z-20"
+              />
+            )}
+
+            {/* Attributes of the selected box */}
+            {selectedAnnotationData && (
+              <AttributePanel
+                annotation={selectedAnnotationData}
+                color={getLabelColor(taxonomy, selectedAnnotationData.label)}
+                onChange={updateAnnotationAttributes}
+                onClose={() => selectAnnotation(null)}
+              />
+            )}
+
+            {/* Candidate review status */}
+            {candidates.length > 0 && (
+              <div className="absolute bottom-4 left-4 flex items-center gap-3 rounded-lg border bg-background/95 px-3 py-2 text-xs shadow-sm">
+                <span className="font-medium">
+                  Candidate {candidates.findIndex((c) => c.id === activeCandidateId) + 1} of {candidates.length}
+                </span>
+                <span className="text-muted-foreground">Label hotkey / Enter: accept · X: dismiss · Tab: next</span>
+                <Button
+                  onClick={() => {
+                    setCandidates([])
+                    setActiveCandidateId(null)
+                  }}
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Dismiss all candidates"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
               </div>
+            )}
+
+            {/* Zoom controls */}
+            <div className="absolute bottom-4 right-4 flex items-center gap-1 rounded-lg border bg-background/95 p-1 shadow-sm">
+              <Button onClick={() => zoomAt((zoom) => zoom / ZOOM_STEP)} variant="ghost" size="icon" className="h-8 w-8" title="Zoom out">
+                <ZoomOut className="h-4 w-4" />
+              </Button>
+              <span className="w-12 text-center text-xs tabular-nums text-muted-foreground">{Math.round(view.zoom * 100)}%</span>
+              <Button onClick={() => zoomAt((zoom) => zoom * ZOOM_STEP)} variant="ghost" size="icon" className="h-8 w-8" title="Zoom in">
+                <ZoomIn className="h-4 w-4" />
+              </Button>
+              <Button onClick={() => fitToScreen()} variant="ghost" size="icon" className="h-8 w-8" title={`Fit to screen${shortcutHint(shortcutBindings, "fitToScreen")}`}>
+                <Maximize className="h-4 w-4" />
+              </Button>
+              <Button onClick={() => zoomAt(() => 1)} variant="ghost" size="sm" className="h-8 px-2 text-xs" title="Actual size">
+                100%
+              </Button>
             </div>
           </div>
         )}
+
+        {image && currentDataset && (
+          <DatasetFilmstrip
+            dataset={currentDataset}
+            projects={datasetProjects}
+            currentProjectId={currentProjectId}
+            onOpen={(projectId) => projectId !== currentProjectId && openProject(projectId)}
+            onStep={openAdjacentProject}
+            onNextUnlabeled={openNextUnlabeled}
+            onToggleReviewed={toggleReviewed}
+            hints={{
+              next: shortcutHint(shortcutBindings, "nextImage"),
+              previous: shortcutHint(shortcutBindings, "previousImage"),
+              nextUnlabeled: shortcutHint(shortcutBindings, "nextUnlabeled"),
+              toggleReviewed: shortcutHint(shortcutBindings, "toggleReviewed"),
+            }}
+          />
+        )}
       </div>
     </div>
   )
@@ -1,23 +1,55 @@
 import { NextRequest } from 'next/server'
+import {
+  getWebhookConfig,
+  parsePredictPayload,
+  readBodyWithLimit,
+  verifyWebhookSignature,
+  WebhookError,
+} from '@/lib/webhook-security'
+import {
+  eventsToReplay,
+  formatStreamEvent,
+  matchesPredictFilter,
+  parsePredictStreamFilter,
+  PREDICT_STREAM_RETRY_MS,
+} from '@/lib/predict-stream'
+import { getPredictBroker } from '@/lib/predict-broker'
 
-let clients: { id: number, send: (msg: string) => void }[] = []
-let clientId = 0
-
+// Called by the backend as a model run on an image goes from queued to completed; only signed calls reach the browsers
 export async function POST(req: NextRequest) {
-  const { image_id, model, result } = await req.json()
-  const payload = `data: ${JSON.stringify({ image_id, model, result })}\n\n`
-  clients.forEach(client => client.send(payload))
-  return new Response(JSON.stringify({ message: 'Webhook received' }), { status: 200 })
+  try {
+    const config = getWebhookConfig()
+    const body = await readBodyWithLimit(req, config.maxBodyBytes)
+    verifyWebhookSignature(req.headers, body, config)
+    const event = parsePredictPayload(body)
+    // Subscribers may be connected to another server instance
+    await getPredictBroker().publish(event)
+    return new Response(JSON.stringify({ message: 'Webhook received' }), { status: 200 })
+  } catch (error) {
+    if (error instanceof WebhookError) return error.toResponse()
+    throw error
+  }
 }
 
-export async function GET() {
-  let id: number;
+// Subscribe with `?image_id=...&model=...&type=...` to receive only matching events. Browsers reconnecting with
+// Last-Event-ID first get the buffered events they missed.
+export async function GET(req: NextRequest) {
+  const filter = parsePredictStreamFilter(req.nextUrl.searchParams);
+  const resumeFrom = req.headers.get('last-event-id');
+  const broker = getPredictBroker();
+  let unsubscribe: () => void;
   let keepAlive: NodeJS.Timeout;
   const stream = new ReadableStream({
     start(controller) {
-      id = clientId++;
       const send = (msg: string) => controller.enqueue(new TextEncoder().encode(msg));
-      clients.push({ id, send });
+      send(`retry: ${PREDICT_STREAM_RETRY_MS}\n\n`);
+      if (resumeFrom) {
+        eventsToReplay(broker.recent(), resumeFrom, filter).forEach(stored => send(formatStreamEvent(stored)));
+      }
+      // Each browser only receives the events matching the filter it subscribed with
+      unsubscribe = broker.subscribe(stored => {
+        if (matchesPredictFilter(filter, stored.event)) send(formatStreamEvent(stored));
+      });
       // Keep-alive
       keepAlive = setInterval(() => {
         send(':\n\n');
@@ -25,7 +57,7 @@ export async function GET() {
     },
     cancel() {
       clearInterval(keepAlive);
-      clients = clients.filter(c => c.id !== id);
+      unsubscribe();
     }
   });
 
@@ -36,4 +68,4 @@ export async function GET() {
       Connection: 'keep-alive',
     },
   });
-} 
\ No newline at end of file
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Annotation, ElementAttributes } from "@/lib/annotations"
+
+interface AttributePanelProps {
+  annotation: Annotation
+  color: string
+  onChange: (annotationId: string, attributes: ElementAttributes) => void
+  onClose: () => void
+}
+
+const STATE_FIELDS = [
+  { key: "checked", label: "Checked" },
+  { key: "disabled", label: "Disabled" },
+  { key: "focused", label: "Focused" },
+] as const
+
+export function AttributePanel({ annotation, color, onChange, onClose }: AttributePanelProps) {
+  const [draft, setDraft] = useState<ElementAttributes>(annotation.attributes ?? {})
+  const [extraRows, setExtraRows] = useState<[string, string][]>(Object.entries(annotation.attributes?.extra ?? {}))
+  // Edits typed but not committed yet
+  const pendingRef = useRef<ElementAttributes | null>(null)
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  // Re-sync when another box is selected or the attributes change underneath (undo/redo)
+  useEffect(() => {
+    setDraft(annotation.attributes ?? {})
+    setExtraRows(Object.entries(annotation.attributes?.extra ?? {}))
+  }, [annotation.id, annotation.attributes])
+
+  // Don't lose uncommitted edits when the selection moves away before the field blurs
+  useEffect(() => {
+    const annotationId = annotation.id
+    return () => {
+      if (pendingRef.current) onChangeRef.current(annotationId, pendingRef.current)
+      pendingRef.current = null
+    }
+  }, [annotation.id])
+
+  const edit = (next: ElementAttributes, rows: [string, string][] = extraRows) => {
+    setDraft(next)
+    setExtraRows(rows)
+    pendingRef.current = { ...next, extra: Object.fromEntries(rows) }
+  }
+
+  // Text fields are committed on blur/Enter so typing doesn't create one undo step per keystroke
+  const commit = (next: ElementAttributes = draft, rows: [string, string][] = extraRows) => {
+    pendingRef.current = null
+    onChange(annotation.id, { ...next, extra: Object.fromEntries(rows) })
+  }
+
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur()
+  }
+
+  const updateRow = (index: number, row: [string, string]) => {
+    edit(draft, extraRows.map((r, i) => (i === index ? row : r)))
+  }
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-20 w-72 space-y-3 rounded-lg border bg-background/95 p-4 shadow-md"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+          <span className="text-sm font-semibold">{annotation.label} attributes</span>
+        </div>
+        <Button onClick={onClose} variant="ghost" size="icon" className="h-6 w-6">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="attr-text" className="text-xs">Visible text</Label>
+        <Input
+          id="attr-text"
+          value={draft.text ?? ""}
+          onChange={(e) => edit({ ...draft, text: e.target.value })}
+          onBlur={() => commit()}
+          onKeyDown={commitOnEnter}
+          placeholder="e.g. Sign in"
+          className="h-8"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="attr-placeholder" className="text-xs">Placeholder</Label>
+        <Input
+          id="attr-placeholder"
+          value={draft.placeholder ?? ""}
+          onChange={(e) => edit({ ...draft, placeholder: e.target.value })}
+          onBlur={() => commit()}
+          onKeyDown={commitOnEnter}
+          placeholder="e.g. Enter your email"
+          className="h-8"
+        />
+      </div>
+
+      <div className="flex items-center gap-4">
+        {STATE_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1.5 text-xs">
+            <input
+              type="checkbox"
+              checked={!!draft[key]}
+              onChange={(e) => {
+                const next = { ...draft, [key]: e.target.checked }
+                setDraft(next)
+                commit(next)
+              }}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs font-medium">Other attributes</span>
+        {extraRows.map(([key, value], index) => (
+          <div key={index} className="flex items-center gap-1">
+            <Input
+              value={key}
+              onChange={(e) => updateRow(index, [e.target.value, value])}
+              onBlur={() => commit()}
+              onKeyDown={commitOnEnter}
+              placeholder="key"
+              className="h-7 text-xs"
+            />
+            <Input
+              value={value}
+              onChange={(e) => updateRow(index, [key, e.target.value])}
+              onBlur={() => commit()}
+              onKeyDown={commitOnEnter}
+              placeholder="value"
+              className="h-7 text-xs"
+            />
+            <Button
+              onClick={() => {
+                const rows = extraRows.filter((_, i) => i !== index)
+                setExtraRows(rows)
+                commit(draft, rows)
+              }}
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          onClick={() => setExtraRows((prev) => [...prev, ["", ""]])}
+          variant="outline"
+          size="sm"
+          className="h-7 w-full text-xs"
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add attribute
+        </Button>
+      </div>
+    </div>
+  )
+}
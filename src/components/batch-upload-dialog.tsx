@@ -0,0 +1,101 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { withNamePrefix, type PendingImage } from "@/lib/image-intake"
+
+interface BatchUploadDialogProps {
+  // Images to turn into projects; the dialog is open while there are any
+  images: PendingImage[]
+  onCancel: () => void
+  // `datasetName` is set when the images should be grouped into a new dataset
+  onCreate: (projects: PendingImage[], datasetName: string | null) => void
+}
+
+// One project per image, named after its file, instead of asking for a name image by image
+export function BatchUploadDialog({ images, onCancel, onCreate }: BatchUploadDialogProps) {
+  const [prefix, setPrefix] = useState("")
+  const [names, setNames] = useState<string[]>([])
+  const [asDataset, setAsDataset] = useState(true)
+
+  useEffect(() => {
+    setNames(images.map((pending) => pending.name))
+  }, [images])
+
+  const baseNames = images.map((pending, i) => (names[i] ?? pending.name).trim())
+  const projects = images.map((pending, i) => ({ image: pending.image, name: withNamePrefix(prefix, baseNames[i]) }))
+  const isValid = baseNames.every(Boolean)
+
+  const handleCreate = () => {
+    if (!isValid) return
+    onCreate(projects, asDataset ? prefix.trim() || `Upload ${new Date().toLocaleDateString()}` : null)
+    setPrefix("")
+  }
+
+  return (
+    <Dialog open={images.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create {images.length} Projects</DialogTitle>
+          <DialogDescription>
+            Each image becomes its own project, named after its file. Add a prefix to name them all at once.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="batch-prefix">Name prefix (optional)</Label>
+          <Input
+            id="batch-prefix"
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value)}
+            placeholder="e.g. Checkout flow"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate()
+            }}
+          />
+        </div>
+
+        <div className="max-h-[40vh] space-y-2 overflow-y-auto">
+          {images.map((pending, i) => (
+            <div key={i} className="flex items-center gap-3">
+              <img src={pending.image} alt="" className="h-10 w-14 shrink-0 rounded border object-cover" />
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <Input
+                  value={names[i] ?? ""}
+                  onChange={(e) => setNames((prev) => prev.map((name, j) => (j === i ? e.target.value : name)))}
+                  className="h-8"
+                  aria-label={`Name of image ${i + 1}`}
+                />
+                {prefix.trim() && <p className="truncate text-xs text-muted-foreground">{projects[i].name}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={asDataset} onChange={(e) => setAsDataset(e.target.checked)} />
+          Group them into a dataset{prefix.trim() ? ` named "${prefix.trim()}"` : ""}
+        </label>
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!isValid}>
+            Create {images.length} Projects
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
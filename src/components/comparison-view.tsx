@@ -0,0 +1,251 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Maximize, X, ZoomIn, ZoomOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { Annotation } from "@/lib/annotations"
+import { matchPredictions, type MatchOutcome } from "@/lib/evaluation"
+import { predictionToAnnotations, type PredictedLabels } from "@/lib/predictions"
+import { getLabelColor, labelStripes, type Taxonomy } from "@/lib/taxonomy"
+import { clampZoom, zoomAround, ZOOM_STEP, type ViewTransform } from "@/lib/view-transform"
+
+interface ComparisonViewProps {
+  image: string
+  imageSize: { width: number; height: number }
+  groundTruth: Annotation[]
+  predictions: PredictedLabels
+  taxonomy: Taxonomy
+  onClose: () => void
+}
+
+interface Pane {
+  title: string
+  // Boxes drawn in the pane with their match outcome (none for the ground truth pane)
+  boxes: { annotation: Annotation; outcome?: MatchOutcome }[]
+  counts?: Record<MatchOutcome, number>
+}
+
+const OUTCOME_COLORS: Record<MatchOutcome, string> = {
+  tp: "#22c55e",
+  fp: "#ef4444",
+  fn: "#f59e0b",
+}
+
+const OUTCOME_LABELS: Record<MatchOutcome, string> = {
+  tp: "True positive",
+  fp: "False positive",
+  fn: "Missed (false negative)",
+}
+
+const FIT_PADDING = 16
+
+// Ground truth and every model side by side; all panes share one zoom/pan so the same region is always in view
+export function ComparisonView({ image, imageSize, groundTruth, predictions, taxonomy, onClose }: ComparisonViewProps) {
+  const [view, setView] = useState<ViewTransform>({ zoom: 1, pan: { x: 0, y: 0 } })
+  const [iouThreshold, setIouThreshold] = useState(0.5)
+  const [panOrigin, setPanOrigin] = useState<{ x: number; y: number; pan: ViewTransform["pan"] } | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+
+  const panes = useMemo<Pane[]>(() => {
+    const models = Object.entries(predictions).map(([model, prediction]) => {
+      const predicted = predictionToAnnotations(prediction, taxonomy)
+      const match = matchPredictions(groundTruth, predicted, iouThreshold)
+      const counts = { tp: 0, fp: 0, fn: 0 }
+      match.predictions.forEach((outcome) => counts[outcome]++)
+      match.groundTruth.forEach((outcome) => outcome === "fn" && counts.fn++)
+      return {
+        title: model,
+        boxes: [
+          ...predicted.map((annotation, i) => ({ annotation, outcome: match.predictions[i] })),
+          // Missed ground truth is drawn too, so it's visible what the model didn't find
+          ...groundTruth
+            .filter((_, i) => match.groundTruth[i] === "fn")
+            .map((annotation) => ({ annotation, outcome: "fn" as const })),
+        ],
+        counts,
+      }
+    })
+    return [{ title: "Ground truth", boxes: groundTruth.map((annotation) => ({ annotation })) }, ...models]
+  }, [groundTruth, predictions, taxonomy, iouThreshold])
+
+  // Panes are the same size, so one transform fits them all
+  const fitToPane = useCallback(() => {
+    const pane = gridRef.current?.querySelector<HTMLElement>("[data-pane]")
+    if (!pane) return
+    const zoom = clampZoom(
+      Math.min(
+        (pane.clientWidth - FIT_PADDING * 2) / imageSize.width,
+        (pane.clientHeight - FIT_PADDING * 2) / imageSize.height,
+      ),
+    )
+    setView({
+      zoom,
+      pan: {
+        x: (pane.clientWidth - imageSize.width * zoom) / 2,
+        y: (pane.clientHeight - imageSize.height * zoom) / 2,
+      },
+    })
+  }, [imageSize])
+
+  useEffect(() => {
+    fitToPane()
+  }, [fitToPane, panes.length])
+
+  const zoomBy = useCallback((factor: number, anchor?: { x: number; y: number }) => {
+    const pane = gridRef.current?.querySelector<HTMLElement>("[data-pane]")
+    const point = anchor ?? { x: (pane?.clientWidth ?? 0) / 2, y: (pane?.clientHeight ?? 0) / 2 }
+    setView((prev) => zoomAround(prev, prev.zoom * factor, point))
+  }, [])
+
+  // Wheel zooms around the cursor in whichever pane it is over; registered natively so the page doesn't scroll
+  useEffect(() => {
+    const grid = gridRef.current
+    if (!grid) return
+
+    const handleWheel = (e: WheelEvent) => {
+      const pane = (e.target as HTMLElement | null)?.closest<HTMLElement>("[data-pane]")
+      if (!pane) return
+      e.preventDefault()
+      const rect = pane.getBoundingClientRect()
+      zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, { x: e.clientX - rect.left, y: e.clientY - rect.top })
+    }
+
+    grid.addEventListener("wheel", handleWheel, { passive: false })
+    return () => {
+      grid.removeEventListener("wheel", handleWheel)
+    }
+  }, [zoomBy])
+
+  // Escape closes the comparison
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [onClose])
+
+  // Focus the overlay so the annotator's keyboard shortcuts stay out of the way while it is open
+  const rootRef = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    rootRef.current?.focus()
+  }, [])
+
+  const columns = panes.length <= 2 ? panes.length : panes.length <= 4 ? 2 : 3
+
+  return (
+    <div ref={rootRef} role="dialog" aria-modal tabIndex={-1} className="fixed inset-0 z-50 flex flex-col bg-background outline-none">
+      <div className="flex h-14 items-center justify-between gap-4 border-b px-4">
+        <div className="flex items-center gap-4">
+          <span className="font-semibold">Model comparison</span>
+          {(Object.keys(OUTCOME_COLORS) as MatchOutcome[]).map((outcome) => (
+            <span key={outcome} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <span className="h-3 w-3 rounded-sm border-2" style={{ borderColor: OUTCOME_COLORS[outcome] }} />
+              {OUTCOME_LABELS[outcome]}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs">
+            IoU ≥ {iouThreshold.toFixed(2)}
+            <input
+              type="range"
+              min={0.1}
+              max={0.95}
+              step={0.05}
+              value={iouThreshold}
+              onChange={(e) => setIouThreshold(e.target.valueAsNumber)}
+              className="w-24"
+            />
+          </label>
+          <Button onClick={() => zoomBy(1 / ZOOM_STEP)} variant="ghost" size="icon" className="h-8 w-8" title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-12 text-center text-xs tabular-nums text-muted-foreground">{Math.round(view.zoom * 100)}%</span>
+          <Button onClick={() => zoomBy(ZOOM_STEP)} variant="ghost" size="icon" className="h-8 w-8" title="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button onClick={fitToPane} variant="ghost" size="icon" className="h-8 w-8" title="Fit to screen">
+            <Maximize className="h-4 w-4" />
+          </Button>
+          <Button onClick={onClose} variant="outline" size="sm" title="Close (Esc)">
+            <X className="mr-2 h-4 w-4" />
+            Close
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={gridRef}
+        className="grid flex-1 gap-px bg-border select-none"
+        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gridAutoRows: "minmax(0, 1fr)" }}
+        onMouseMove={(e) => {
+          if (!panOrigin) return
+          setView((prev) => ({
+            ...prev,
+            pan: { x: panOrigin.pan.x + e.clientX - panOrigin.x, y: panOrigin.pan.y + e.clientY - panOrigin.y },
+          }))
+        }}
+        onMouseUp={() => setPanOrigin(null)}
+        onMouseLeave={() => setPanOrigin(null)}
+      >
+        {panes.map((pane) => (
+          <div
+            key={pane.title}
+            data-pane
+            className={cn("relative overflow-hidden bg-muted/30", panOrigin ? "cursor-grabbing" : "cursor-grab")}
+            onMouseDown={(e) => setPanOrigin({ x: e.clientX, y: e.clientY, pan: view.pan })}
+          >
+            <img
+              src={image}
+              alt={pane.title}
+              className="absolute block max-w-none"
+              draggable={false}
+              style={{
+                left: view.pan.x,
+                top: view.pan.y,
+                width: imageSize.width * view.zoom,
+                height: imageSize.height * view.zoom,
+              }}
+            />
+
+            {pane.boxes.map(({ annotation, outcome }) => {
+              const color = outcome ? OUTCOME_COLORS[outcome] : getLabelColor(taxonomy, annotation.label)
+              return (
+                <div
+                  key={`${outcome ?? "gt"}-${annotation.id}`}
+                  className={cn("pointer-events-none absolute border-2", outcome === "fn" && "border-dashed")}
+                  style={{
+                    left: view.pan.x + annotation.x * view.zoom,
+                    top: view.pan.y + annotation.y * view.zoom,
+                    width: annotation.width * view.zoom,
+                    height: annotation.height * view.zoom,
+                    borderColor: color,
+                    background: labelStripes(color),
+                  }}
+                  title={outcome ? `${annotation.label}: ${OUTCOME_LABELS[outcome]}` : annotation.label}
+                />
+              )
+            })}
+
+            <div className="absolute top-2 left-2 flex items-center gap-2 rounded-md border bg-background/95 px-2 py-1 text-xs shadow-sm">
+              <span className="font-semibold">{pane.title}</span>
+              {pane.counts ? (
+                <span className="tabular-nums text-muted-foreground">
+                  <span style={{ color: OUTCOME_COLORS.tp }}>{pane.counts.tp} TP</span> ·{" "}
+                  <span style={{ color: OUTCOME_COLORS.fp }}>{pane.counts.fp} FP</span> ·{" "}
+                  <span style={{ color: OUTCOME_COLORS.fn }}>{pane.counts.fn} FN</span>
+                </span>
+              ) : (
+                <span className="text-muted-foreground">{pane.boxes.length} boxes</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { CircleCheck, ChevronLeft, ChevronRight, SkipForward } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { SavedProject } from "@/lib/annotations"
+import {
+  getDatasetProgress,
+  getImageStatus,
+  STATUS_COLORS,
+  type Dataset,
+  type DatasetProgress,
+  type ImageStatus,
+} from "@/lib/datasets"
+
+const STATUS_ORDER: ImageStatus[] = ["reviewed", "labeled", "unlabeled"]
+
+// Stacked bar of reviewed / labeled / unlabeled images with the counts next to it
+export function DatasetProgressBar({
+  progress,
+  showCounts = true,
+  className,
+}: {
+  progress: DatasetProgress
+  showCounts?: boolean
+  className?: string
+}) {
+  return (
+    <div className={cn("flex items-center gap-2 text-xs", className)}>
+      <div className="flex h-1.5 w-24 flex-1 overflow-hidden rounded-full bg-muted">
+        {STATUS_ORDER.map((status) => (
+          <div
+            key={status}
+            style={{
+              width: `${progress.total ? (progress[status] / progress.total) * 100 : 0}%`,
+              backgroundColor: STATUS_COLORS[status],
+            }}
+          />
+        ))}
+      </div>
+      {showCounts && (
+        <span className="tabular-nums text-muted-foreground">
+          {progress.reviewed} reviewed · {progress.labeled} labeled · {progress.unlabeled} unlabeled
+        </span>
+      )}
+    </div>
+  )
+}
+
+interface DatasetFilmstripProps {
+  dataset: Dataset
+  projects: SavedProject[]
+  currentProjectId: string | null
+  onOpen: (projectId: string) => void
+  onStep: (step: 1 | -1) => void
+  onNextUnlabeled: () => void
+  onToggleReviewed: () => void
+  // Tooltip suffixes with the current key bindings, e.g. " (N)"
+  hints: { next: string; previous: string; nextUnlabeled: string; toggleReviewed: string }
+}
+
+// Thumbnails of the dataset's images under the canvas, with the current one highlighted
+export function DatasetFilmstrip({
+  dataset,
+  projects,
+  currentProjectId,
+  onOpen,
+  onStep,
+  onNextUnlabeled,
+  onToggleReviewed,
+  hints,
+}: DatasetFilmstripProps) {
+  const stripRef = useRef<HTMLDivElement>(null)
+  const progress = getDatasetProgress(dataset, projects)
+  const position = currentProjectId ? dataset.projectIds.indexOf(currentProjectId) : -1
+  const isReviewed = !!currentProjectId && dataset.reviewedIds.includes(currentProjectId)
+
+  // Keep the current thumbnail in view while stepping through a long dataset
+  useEffect(() => {
+    stripRef.current?.querySelector("[data-current]")?.scrollIntoView({ block: "nearest", inline: "nearest" })
+  }, [currentProjectId])
+
+  return (
+    <div className="flex items-center gap-3 border-t bg-background px-4 py-2">
+      <div className="w-56 shrink-0 space-y-1">
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="truncate text-sm font-semibold">{dataset.name}</span>
+          <span className="text-xs tabular-nums text-muted-foreground">
+            {position + 1} / {dataset.projectIds.length}
+          </span>
+        </div>
+        <DatasetProgressBar progress={progress} showCounts={false} />
+        <p className="text-xs tabular-nums text-muted-foreground">
+          {progress.reviewed} reviewed · {progress.labeled} labeled · {progress.unlabeled} left
+        </p>
+      </div>
+
+      <Button onClick={() => onStep(-1)} variant="ghost" size="icon" className="h-8 w-8 shrink-0" title={`Previous image${hints.previous}`}>
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <div ref={stripRef} className="flex min-w-0 flex-1 gap-2 overflow-x-auto py-1">
+        {dataset.projectIds.map((id, i) => {
+          const project = projects.find((p) => p.id === id)
+          if (!project) return null
+          const status = getImageStatus(dataset, project)
+          const isCurrent = id === currentProjectId
+          return (
+            <button
+              key={id}
+              type="button"
+              data-current={isCurrent || undefined}
+              onClick={() => onOpen(id)}
+              className={cn(
+                "relative h-14 w-20 shrink-0 overflow-hidden rounded border-2 bg-muted",
+                isCurrent ? "border-primary" : "border-transparent opacity-70 hover:opacity-100",
+              )}
+              title={`${i + 1}. ${project.name} (${status})`}
+            >
+              <img src={project.image || "/placeholder.svg"} alt={project.name} className="h-full w-full object-cover" />
+              <span
+                className="absolute right-1 bottom-1 h-2.5 w-2.5 rounded-full border border-background"
+                style={{ backgroundColor: STATUS_COLORS[status] }}
+              />
+            </button>
+          )
+        })}
+      </div>
+      <Button onClick={() => onStep(1)} variant="ghost" size="icon" className="h-8 w-8 shrink-0" title={`Next image${hints.next}`}>
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+
+      <div className="flex shrink-0 flex-col gap-1">
+        <Button
+          onClick={onNextUnlabeled}
+          disabled={progress.unlabeled === 0}
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          title={`Next unlabeled image${hints.nextUnlabeled}`}
+        >
+          <SkipForward className="mr-1 h-3.5 w-3.5" />
+          Next unlabeled
+        </Button>
+        <Button
+          onClick={onToggleReviewed}
+          disabled={position < 0}
+          variant={isReviewed ? "secondary" : "outline"}
+          size="sm"
+          className="h-7 text-xs"
+          title={`${isReviewed ? "Unmark" : "Mark"} as reviewed${hints.toggleReviewed}`}
+        >
+          <CircleCheck className="mr-1 h-3.5 w-3.5" style={isReviewed ? { color: STATUS_COLORS.reviewed } : undefined} />
+          {isReviewed ? "Reviewed" : "Mark reviewed"}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+export interface GridDuplicateOptions {
+  rows: number
+  columns: number
+  // Space (image px) between neighboring copies
+  gapX: number
+  gapY: number
+}
+
+interface GridDuplicateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Number of selected boxes that will be repeated
+  selectionCount: number
+  onDuplicate: (options: GridDuplicateOptions) => void
+}
+
+const FIELDS = [
+  { key: "columns", label: "Columns", min: 1 },
+  { key: "rows", label: "Rows", min: 1 },
+  { key: "gapX", label: "Horizontal spacing (px)", min: 0 },
+  { key: "gapY", label: "Vertical spacing (px)", min: 0 },
+] as const
+
+export function GridDuplicateDialog({ open, onOpenChange, selectionCount, onDuplicate }: GridDuplicateDialogProps) {
+  // Kept between openings: the same row of elements is often repeated on the next screenshot too
+  const [options, setOptions] = useState<GridDuplicateOptions>({ rows: 1, columns: 3, gapX: 8, gapY: 8 })
+
+  const copies = options.rows * options.columns - 1
+  const isValid = FIELDS.every(({ key, min }) => Number.isInteger(options[key]) && options[key] >= min) && copies > 0
+
+  const handleDuplicate = () => {
+    if (!isValid) return
+    onDuplicate(options)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Duplicate as Grid</DialogTitle>
+          <DialogDescription>
+            Repeat the {selectionCount} selected box{selectionCount !== 1 ? "es" : ""} to the right and below. The
+            selection itself is the top-left cell.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {FIELDS.map(({ key, label, min }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`grid-${key}`}>{label}</Label>
+              <Input
+                id={`grid-${key}`}
+                type="number"
+                min={min}
+                value={options[key]}
+                onChange={(e) => setOptions((prev) => ({ ...prev, [key]: e.target.valueAsNumber }))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleDuplicate()
+                }}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleDuplicate} disabled={!isValid}>
+            Add {isValid ? copies : 0} cop{copies !== 1 ? "ies" : "y"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import type { Annotation } from "@/lib/annotations"
+import { defaultChoice, type MergeItem, type MergeSide } from "@/lib/annotation-merge"
+
+interface MergeConflictDialogProps {
+  // Boxes that differ between the local and the server version; the dialog is open while there are any
+  items: MergeItem[]
+  onCancel: () => void
+  onResolve: (choices: Record<string, MergeSide>) => void
+}
+
+// e.g. "moved, relabeled to Button"
+function describeEdit(base: Annotation, box: Annotation) {
+  const parts: string[] = []
+  if (base.x !== box.x || base.y !== box.y) parts.push("moved")
+  if (base.width !== box.width || base.height !== box.height) parts.push("resized")
+  if (base.label !== box.label) parts.push(`relabeled to ${box.label}`)
+  if (base.parentId !== box.parentId) parts.push("re-parented")
+  if (JSON.stringify(base.attributes ?? {}) !== JSON.stringify(box.attributes ?? {})) parts.push("attributes edited")
+  return parts.join(", ")
+}
+
+function describeSide(item: MergeItem, side: MergeSide) {
+  const box = side === "mine" ? item.mine : item.theirs
+  switch (side === "mine" ? item.mineChange : item.theirsChange) {
+    case "added":
+      return "Added"
+    case "removed":
+      return "Deleted"
+    case "modified":
+      return item.base && box ? `Changed: ${describeEdit(item.base, box)}` : "Changed"
+    default:
+      return "Unchanged"
+  }
+}
+
+// Pick, box by box, between local edits and the ones saved on the server in the meantime
+export function MergeConflictDialog({ items, onCancel, onResolve }: MergeConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({})
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(items.map((item) => [item.id, defaultChoice(item)])))
+  }, [items])
+
+  const chooseAll = (side: MergeSide) => setChoices(Object.fromEntries(items.map((item) => [item.id, side])))
+  const conflictCount = items.filter((item) => item.conflict).length
+
+  return (
+    <Dialog open={items.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Ground Truth Changed on the Server</DialogTitle>
+          <DialogDescription>
+            Someone updated this image since you loaded it. {items.length} box{items.length !== 1 ? "es" : ""} differ
+            {conflictCount > 0 && `, ${conflictCount} of them edited on both sides`}. Choose which version of each box
+            to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => chooseAll("mine")}>
+            Keep all mine
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll("theirs")}>
+            Take all from server
+          </Button>
+        </div>
+
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {items.map((item) => {
+            const box = item.mine ?? item.theirs ?? item.base
+            return (
+              <div
+                key={item.id}
+                className={cn("rounded-md border p-2", item.conflict && "border-amber-300 bg-amber-50 dark:bg-amber-950/20")}
+              >
+                <div className="mb-1.5 flex items-center gap-2">
+                  <span className="text-sm font-medium">{box?.label}</span>
+                  {box && (
+                    <span className="text-xs text-muted-foreground">
+                      {Math.round(box.width)}×{Math.round(box.height)} at ({Math.round(box.x)}, {Math.round(box.y)})
+                    </span>
+                  )}
+                  {item.conflict && (
+                    <Badge variant="outline" className="ml-auto h-5 border-amber-300 px-1.5 text-[10px] text-amber-700">
+                      Conflict
+                    </Badge>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {(["mine", "theirs"] as const).map((side) => (
+                    <button
+                      key={side}
+                      type="button"
+                      onClick={() => setChoices((prev) => ({ ...prev, [item.id]: side }))}
+                      className={cn(
+                        "rounded border px-2 py-1.5 text-left text-xs transition-colors",
+                        choices[item.id] === side ? "border-primary bg-primary/10" : "hover:bg-muted",
+                      )}
+                    >
+                      <span className="block font-medium">{side === "mine" ? "Mine" : "Server"}</span>
+                      <span className="text-muted-foreground">{describeSide(item, side)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onResolve(choices)}>Merge and Update</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
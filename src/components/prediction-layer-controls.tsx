@@ -0,0 +1,87 @@
+"use client"
+
+import { Bot, Eye, EyeOff, ListChecks } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { PredictedLabels } from "@/lib/predictions"
+
+export interface PredictionLayerState {
+  visible: boolean
+  model: string | null
+  // 0-1, applied to the whole layer
+  opacity: number
+}
+
+interface PredictionLayerControlsProps {
+  predictions: PredictedLabels
+  layer: PredictionLayerState
+  onChange: (layer: PredictionLayerState) => void
+  // Step through the chosen model's boxes to accept or reject them
+  onReview: () => void
+  // The model can't be switched in the middle of a review
+  isReviewing: boolean
+}
+
+// Floating panel to pick which model's predictions are drawn over the image and how strongly
+export function PredictionLayerControls({ predictions, layer, onChange, onReview, isReviewing }: PredictionLayerControlsProps) {
+  const models = Object.keys(predictions)
+
+  return (
+    <div
+      className="absolute top-4 left-4 z-20 flex items-center gap-2 rounded-lg border bg-background/95 p-1.5 shadow-sm"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <Button
+        onClick={() => onChange({ ...layer, visible: !layer.visible })}
+        variant={layer.visible ? "secondary" : "ghost"}
+        size="sm"
+        className="h-8 px-2 text-xs"
+        title={layer.visible ? "Hide predictions" : "Show predictions"}
+      >
+        {layer.visible ? <Eye className="mr-1 h-3.5 w-3.5" /> : <EyeOff className="mr-1 h-3.5 w-3.5" />}
+        Predictions
+      </Button>
+      <Select
+        value={layer.model ?? ""}
+        onValueChange={(model) => onChange({ ...layer, model, visible: true })}
+        disabled={isReviewing}
+      >
+        <SelectTrigger className="h-8 w-[160px] text-xs">
+          <Bot className="h-3.5 w-3.5" />
+          <SelectValue placeholder="Model" />
+        </SelectTrigger>
+        <SelectContent>
+          {models.map((model) => (
+            <SelectItem key={model} value={model}>
+              {model}
+              <span className="ml-auto text-xs text-muted-foreground">{predictions[model].elements.length}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <input
+        type="range"
+        min={0.1}
+        max={1}
+        step={0.05}
+        value={layer.opacity}
+        onChange={(e) => onChange({ ...layer, opacity: e.target.valueAsNumber })}
+        disabled={!layer.visible}
+        className="w-20"
+        aria-label="Prediction layer opacity"
+        title={`Opacity ${Math.round(layer.opacity * 100)}%`}
+      />
+      <Button
+        onClick={onReview}
+        disabled={isReviewing || !layer.model || !predictions[layer.model]?.elements.length}
+        variant="outline"
+        size="sm"
+        className="h-8 px-2 text-xs"
+        title="Accept or reject this model's boxes one by one"
+      >
+        <ListChecks className="mr-1 h-3.5 w-3.5" />
+        Review
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+interface PredictionReviewPanelProps {
+  model: string
+  // Position (1-based) of the box under review
+  position: number
+  total: number
+  accepted: number
+  rejected: number
+  onExit: () => void
+}
+
+// Progress of the prediction review, with the keys that drive it
+export function PredictionReviewPanel({ model, position, total, accepted, rejected, onExit }: PredictionReviewPanelProps) {
+  const reviewed = accepted + rejected
+  const done = reviewed === total
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-20 w-80 space-y-2 rounded-lg border bg-background/95 p-3 text-xs shadow-sm"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Reviewing {model}</span>
+        <Button onClick={onExit} variant="ghost" size="icon" className="h-6 w-6" title="Exit review (Esc)">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-primary transition-all" style={{ width: `${total ? (reviewed / total) * 100 : 0}%` }} />
+      </div>
+      <div className="flex justify-between tabular-nums">
+        <span>{done ? "All boxes reviewed" : `Box ${position} of ${total}`}</span>
+        <span className="text-muted-foreground">
+          {accepted} accepted · {rejected} rejected · {total - reviewed} left
+        </span>
+      </div>
+      {!done && (
+        <p className="text-muted-foreground">
+          Enter/A: accept · Label hotkey: relabel and accept · D: accept and adjust · X: reject · Tab: skip · Esc: exit
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { Copy, Grid3x3, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Annotation } from "@/lib/annotations"
+import { cn } from "@/lib/utils"
+import type { Taxonomy } from "@/lib/taxonomy"
+
+interface SelectionPanelProps {
+  selection: Annotation[]
+  taxonomy: Taxonomy
+  onRelabel: (label: string) => void
+  onCopy: () => void
+  onDuplicateAsGrid: () => void
+  onDelete: () => void
+  onClose: () => void
+  className?: string
+}
+
+// Bulk actions for a multi-selection, on the canvas (where the attribute panel is for a single box) and in the Annotations sheet
+export function SelectionPanel({ selection, taxonomy, onRelabel, onCopy, onDuplicateAsGrid, onDelete, onClose, className }: SelectionPanelProps) {
+  const labels = new Set(selection.map((ann) => ann.label))
+  // Show the shared label, or nothing when the selection is mixed
+  const sharedLabel = labels.size === 1 ? selection[0].label : ""
+
+  return (
+    <div
+      className={cn("w-72 space-y-3 rounded-lg border bg-background/95 p-4 shadow-md", className)}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">{selection.length} annotations selected</span>
+        <Button onClick={onClose} variant="ghost" size="icon" className="h-6 w-6">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <Select value={sharedLabel} onValueChange={onRelabel}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder={`Mixed (${labels.size} labels) — relabel all`} />
+        </SelectTrigger>
+        <SelectContent>
+          {taxonomy.map((def) => (
+            <SelectItem key={def.id} value={def.name}>
+              <div className="flex items-center gap-2">
+                <div className="h-3 w-3 rounded-full" style={{ backgroundColor: def.color }} />
+                {def.name}
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-3 gap-1">
+        <Button onClick={onCopy} variant="outline" size="sm" className="h-8 text-xs" title="Copy (Ctrl+C)">
+          <Copy className="mr-1 h-3 w-3" />
+          Copy
+        </Button>
+        <Button onClick={onDuplicateAsGrid} variant="outline" size="sm" className="h-8 text-xs">
+          <Grid3x3 className="mr-1 h-3 w-3" />
+          Grid
+        </Button>
+        <Button onClick={onDelete} variant="outline" size="sm" className="h-8 text-xs text-destructive">
+          <Trash2 className="mr-1 h-3 w-3" />
+          Delete
+        </Button>
+      </div>
+    </div>
+  )
+}
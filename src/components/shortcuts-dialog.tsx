@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  eventToCombo,
+  formatCombo,
+  getDefaultBindings,
+  SHORTCUTS,
+  validateBindings,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from "@/lib/shortcuts"
+import type { Taxonomy } from "@/lib/taxonomy"
+
+interface ShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutBindings
+  // Label hotkeys are listed too; they are changed in the taxonomy dialog
+  taxonomy: Taxonomy
+  onSave: (bindings: ShortcutBindings) => void
+}
+
+const GROUPS = ["Editing", "Canvas", "Project", "Help"] as const
+
+function KeyChip({ combo }: { combo: string }) {
+  return <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">{formatCombo(combo)}</kbd>
+}
+
+export function ShortcutsDialog({ open, onOpenChange, bindings, taxonomy, onSave }: ShortcutsDialogProps) {
+  const [draft, setDraft] = useState<ShortcutBindings>(bindings)
+  // Action waiting for a key press to add to its keys
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+
+  useEffect(() => {
+    if (open) setDraft(bindings)
+    setRecording(null)
+  }, [open, bindings])
+
+  // Label hotkeys fire with or without Shift, so both combos are taken
+  const reserved = Object.fromEntries(
+    taxonomy
+      .filter((def) => def.hotkey)
+      .flatMap((def) => {
+        const key = def.hotkey!.toLowerCase()
+        return [
+          [key, def.name],
+          [`shift+${key}`, def.name],
+        ]
+      }),
+  )
+  const error = validateBindings(draft, reserved)
+
+  const handleRecordKeyDown = (e: React.KeyboardEvent) => {
+    if (!recording) return
+    e.preventDefault()
+    e.stopPropagation()
+    const combo = eventToCombo(e.nativeEvent)
+    if (!combo) return
+    if (combo !== "escape") {
+      setDraft((prev) => ({
+        ...prev,
+        [recording]: prev[recording].includes(combo) ? prev[recording] : [...prev[recording], combo],
+      }))
+    }
+    setRecording(null)
+  }
+
+  const removeKey = (action: ShortcutAction, combo: string) => {
+    setDraft((prev) => ({ ...prev, [action]: prev[action].filter((c) => c !== combo) }))
+  }
+
+  const handleSave = () => {
+    if (error) return
+    onSave(draft)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-2xl"
+        onKeyDown={handleRecordKeyDown}
+        onEscapeKeyDown={(e) => {
+          // Escape stops recording instead of closing the dialog
+          if (recording) {
+            e.preventDefault()
+            setRecording(null)
+          }
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Click + next to an action and press the keys to add a shortcut, or × to remove one. Escape cancels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid max-h-[60vh] gap-6 overflow-y-auto sm:grid-cols-2">
+          {GROUPS.map((group) => (
+            <div key={group} className="space-y-2">
+              <h3 className="text-sm font-semibold">{group}</h3>
+              {SHORTCUTS.filter((def) => def.group === group).map((def) => (
+                <div key={def.action} className="flex items-center justify-between gap-2 text-sm">
+                  <span>{def.description}</span>
+                  <div className="flex flex-wrap items-center justify-end gap-1">
+                    {draft[def.action].map((combo) => (
+                      <span key={combo} className="inline-flex items-center">
+                        <KeyChip combo={combo} />
+                        <button
+                          type="button"
+                          onClick={() => removeKey(def.action, combo)}
+                          className="ml-0.5 text-muted-foreground hover:text-foreground"
+                          aria-label={`Remove ${formatCombo(combo)}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    <Button
+                      onClick={() => setRecording(recording === def.action ? null : def.action)}
+                      variant={recording === def.action ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-6 px-1.5 text-xs"
+                    >
+                      {recording === def.action ? "Press keys…" : <Plus className="h-3 w-3" />}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Labels</h3>
+            {taxonomy.map((def) => (
+              <div key={def.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: def.color }} />
+                  {def.name}
+                </span>
+                {def.hotkey ? <KeyChip combo={def.hotkey.toLowerCase()} /> : <span className="text-xs text-muted-foreground">—</span>}
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">Label hotkeys are edited in the Labels dialog.</p>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button onClick={() => setDraft(getDefaultBindings())} variant="ghost" className="sm:mr-auto">
+            Reset to defaults
+          </Button>
+          <Button onClick={() => onOpenChange(false)} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error}>
+            Save Shortcuts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,22 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { SyncStatus } from "@/lib/outbox"
+
+const SYNC_BADGES: Record<SyncStatus, { label: string; className: string }> = {
+  synced: { label: "Synced", className: "border-green-200 text-green-700" },
+  pending: { label: "Pending", className: "border-amber-300 text-amber-700" },
+  failed: { label: "Sync failed", className: "border-red-300 text-red-700" },
+  conflict: { label: "Needs merge", className: "border-red-300 text-red-700" },
+  local: { label: "Not uploaded", className: "text-muted-foreground" },
+}
+
+// Whether a project's changes reached the server; `error` is the last failure, shown on hover
+export function SyncBadge({ status, error }: { status: SyncStatus; error?: string }) {
+  return (
+    <Badge variant="outline" className={cn("h-5 px-1.5 text-[10px]", SYNC_BADGES[status].className)} title={error}>
+      {SYNC_BADGES[status].label}
+    </Badge>
+  )
+}
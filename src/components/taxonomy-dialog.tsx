@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { SHORTCUTS, type ShortcutBindings } from "@/lib/shortcuts"
+import { createLabelId, LABEL_PALETTE, validateTaxonomy, type Taxonomy } from "@/lib/taxonomy"
+
+interface TaxonomyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  taxonomy: Taxonomy
+  // Number of annotations currently using each label name; labels in use can't be removed
+  usage: Record<string, number>
+  // Label hotkeys can't take keys of the shortcuts
+  bindings: ShortcutBindings
+  onSave: (taxonomy: Taxonomy) => void
+}
+
+export function TaxonomyDialog({ open, onOpenChange, taxonomy, usage, bindings, onSave }: TaxonomyDialogProps) {
+  const [draft, setDraft] = useState<Taxonomy>(taxonomy)
+
+  // Start from the project's current taxonomy every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(taxonomy)
+  }, [open, taxonomy])
+
+  // Label hotkeys fire with or without Shift, so shortcuts on a single key collide either way
+  const reserved = Object.fromEntries(
+    SHORTCUTS.flatMap((def) =>
+      bindings[def.action]
+        .map((combo) => combo.replace(/^shift\+/, ""))
+        .filter((key) => !key.includes("+"))
+        .map((key) => [key, def.description]),
+    ),
+  )
+  const error = validateTaxonomy(draft, reserved)
+
+  const updateLabel = (id: string, patch: Partial<Taxonomy[number]>) => {
+    setDraft((prev) => prev.map((def) => (def.id === id ? { ...def, ...patch } : def)))
+  }
+
+  const addLabel = () => {
+    setDraft((prev) => [
+      ...prev,
+      { id: createLabelId(), name: "", color: LABEL_PALETTE[prev.length % LABEL_PALETTE.length], type: "" },
+    ])
+  }
+
+  const handleSave = () => {
+    if (error) return
+    onSave(
+      draft.map((def) => ({
+        ...def,
+        name: def.name.trim(),
+        type: def.type.trim(),
+        hotkey: def.hotkey?.trim() || undefined,
+      })),
+    )
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Label Taxonomy</DialogTitle>
+          <DialogDescription>
+            Labels available in this project, their colors, hotkeys and the element type sent to the backend.
+            Container labels (forms, groups, cards) can hold other elements.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[2.5rem_1fr_1fr_4rem_4.5rem_2rem] items-center gap-2 text-xs font-medium text-muted-foreground">
+          <span>Color</span>
+          <span>Label</span>
+          <span>Backend type</span>
+          <span>Hotkey</span>
+          <span>Container</span>
+          <span />
+        </div>
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {draft.map((def) => {
+            const inUse = usage[taxonomy.find((orig) => orig.id === def.id)?.name ?? ""] ?? 0
+            return (
+              <div key={def.id} className="grid grid-cols-[2.5rem_1fr_1fr_4rem_4.5rem_2rem] items-center gap-2">
+                <input
+                  type="color"
+                  value={def.color}
+                  onChange={(e) => updateLabel(def.id, { color: e.target.value })}
+                  className="h-9 w-10 cursor-pointer rounded-md border bg-transparent p-1"
+                  aria-label="Label color"
+                />
+                <Input
+                  value={def.name}
+                  onChange={(e) => updateLabel(def.id, { name: e.target.value })}
+                  placeholder="e.g. Checkbox"
+                />
+                <Input
+                  value={def.type}
+                  onChange={(e) => updateLabel(def.id, { type: e.target.value })}
+                  placeholder="e.g. checkbox"
+                />
+                <Input
+                  value={def.hotkey ?? ""}
+                  onChange={(e) => updateLabel(def.id, { hotkey: e.target.value.slice(-1) })}
+                  className="text-center"
+                  maxLength={1}
+                />
+                <input
+                  type="checkbox"
+                  checked={!!def.container}
+                  onChange={(e) => updateLabel(def.id, { container: e.target.checked })}
+                  className="justify-self-center"
+                  aria-label="Can contain other elements"
+                />
+                <Button
+                  onClick={() => setDraft((prev) => prev.filter((d) => d.id !== def.id))}
+                  disabled={inUse > 0}
+                  title={inUse > 0 ? `Used by ${inUse} annotation${inUse !== 1 ? "s" : ""}` : "Remove label"}
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+        <Button onClick={addLabel} variant="outline" size="sm" className="w-fit">
+          <Plus className="mr-2 h-4 w-4" />
+          Add label
+        </Button>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error}>
+            Save Labels
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,101 @@
+import { useCallback, useState } from "react"
+
+export interface HistoryCommand<T> {
+  label: string
+  before: T
+  after: T
+}
+
+interface HistoryState<T> {
+  past: HistoryCommand<T>[]
+  present: T
+  future: HistoryCommand<T>[]
+}
+
+type Updater<T> = T | ((prev: T) => T)
+
+// Oldest commands are dropped once the stack grows past this size
+const MAX_HISTORY = 200
+
+function resolve<T>(updater: Updater<T>, prev: T): T {
+  return typeof updater === "function" ? (updater as (prev: T) => T)(prev) : updater
+}
+
+/**
+ * Undo/redo stack for a single piece of state.
+ *
+ * - `execute` applies a change and records it as one undoable command.
+ * - `preview` changes the value without recording (e.g. while a box is being dragged);
+ *   call `commit` afterwards with the value from before the gesture to record it as one command.
+ * - `reset` replaces the value and forgets all history (e.g. when another project is opened).
+ */
+export function useCommandHistory<T>(initial: T) {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] })
+
+  const execute = useCallback((label: string, updater: Updater<T>) => {
+    setState((prev) => {
+      const next = resolve(updater, prev.present)
+      if (Object.is(next, prev.present)) return prev
+      return {
+        past: [...prev.past, { label, before: prev.present, after: next }].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      }
+    })
+  }, [])
+
+  const preview = useCallback((updater: Updater<T>) => {
+    setState((prev) => ({ ...prev, present: resolve(updater, prev.present) }))
+  }, [])
+
+  const commit = useCallback((label: string, before: T) => {
+    setState((prev) => {
+      if (Object.is(before, prev.present)) return prev
+      return {
+        past: [...prev.past, { label, before, after: prev.present }].slice(-MAX_HISTORY),
+        present: prev.present,
+        future: [],
+      }
+    })
+  }, [])
+
+  const reset = useCallback((next: Updater<T>) => {
+    setState((prev) => ({ past: [], present: resolve(next, prev.present), future: [] }))
+  }, [])
+
+  const undo = useCallback(() => {
+    const command = state.past[state.past.length - 1]
+    if (!command) return null
+    setState((prev) => ({
+      past: prev.past.slice(0, -1),
+      present: command.before,
+      future: [command, ...prev.future],
+    }))
+    return command
+  }, [state.past])
+
+  const redo = useCallback(() => {
+    const command = state.future[0]
+    if (!command) return null
+    setState((prev) => ({
+      past: [...prev.past, command],
+      present: command.after,
+      future: prev.future.slice(1),
+    }))
+    return command
+  }, [state.future])
+
+  return {
+    value: state.present,
+    execute,
+    preview,
+    commit,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[0]?.label ?? null,
+  }
+}
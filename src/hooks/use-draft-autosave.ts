@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { deleteDraft, saveDraft, type Draft } from "@/lib/project-store"
+
+// Quiet time after the last change before the draft is written
+const DEBOUNCE_MS = 1000
+// Continuous editing (e.g. a long drag) keeps pushing the debounce back, so a write is forced this often
+const INTERVAL_MS = 30000
+
+/**
+ * Keep a draft of the open project in IndexedDB while it has unsaved changes.
+ *
+ * - The draft is written shortly after each change, every 30 seconds if it changed since the last write, and when
+ *   the tab is closed or another project is opened.
+ * - Passing a null draft (nothing unsaved) deletes the stored draft of `projectId`.
+ *
+ * `draft` should be memoized: a new object counts as a change. Returns when the draft was last written, and `discard`
+ * to delete a project's draft without writing edits still waiting on the debounce (e.g. the project was deleted).
+ */
+export function useDraftAutosave(projectId: string | null, draft: Omit<Draft, "savedAt"> | null) {
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null)
+  // Updated after each commit rather than during render, so cleanups still see the previous project's draft
+  const latestRef = useRef(draft)
+  useEffect(() => {
+    latestRef.current = draft
+  })
+  // Changed since the last write
+  const pendingRef = useRef(false)
+
+  const flush = useCallback(() => {
+    const latest = latestRef.current
+    if (!pendingRef.current || !latest) return
+    pendingRef.current = false
+    const savedAt = new Date().toISOString()
+    saveDraft({ ...latest, savedAt })
+      .then(() => setLastSavedAt(savedAt))
+      .catch((error) => console.error("Error saving draft:", error))
+  }, [])
+
+  useEffect(() => {
+    if (!draft) return
+    pendingRef.current = true
+    const timer = setTimeout(flush, DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [draft, flush])
+
+  // Opening another project would otherwise drop the last edits of this one, still waiting on the debounce
+  useEffect(() => () => flush(), [projectId, flush])
+
+  // Also write right away when the tab is closed or navigated away from
+  useEffect(() => {
+    const interval = setInterval(flush, INTERVAL_MS)
+    window.addEventListener("pagehide", flush)
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener("pagehide", flush)
+    }
+  }, [flush])
+
+  const hasDraft = !!draft
+  useEffect(() => {
+    if (!projectId || hasDraft) return
+    pendingRef.current = false
+    setLastSavedAt(null)
+    deleteDraft(projectId).catch((error) => console.error("Error deleting draft:", error))
+  }, [projectId, hasDraft])
+
+  const discard = useCallback((id: string) => {
+    pendingRef.current = false
+    deleteDraft(id).catch((error) => console.error("Error deleting draft:", error))
+  }, [])
+
+  return { lastSavedAt, discard }
+}
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { ApiError } from "@/lib/api-client"
+import {
+  createOutboxEntry,
+  enqueueEntry,
+  failureStatus,
+  recordFailure,
+  sendOperation,
+  type OutboxEntry,
+  type OutboxOperation,
+  type QueuedUpdate,
+  type SendResult,
+} from "@/lib/outbox"
+import { loadOutbox, saveOutbox } from "@/lib/project-store"
+
+// How often queued entries are retried while there are any
+const RETRY_INTERVAL_MS = 30000
+
+export type SubmitOutcome = { status: "sent"; result: SendResult } | { status: "queued"; error: string }
+
+interface OutboxOptions {
+  // A queued upload or ground truth update reached the server. After an upload the project's remaining entries
+  // already point at the server's id (`result.id`); the caller moves everything else it keys by project id.
+  onSent: (entry: OutboxEntry, result: SendResult) => void
+  // A queued ground truth update was rejected because the server's version moved on. It stays queued, marked
+  // "conflict" and no longer sent, until `takeConflict` hands it over for merging.
+  onConflict: (entry: QueuedUpdate) => void
+}
+
+/**
+ * Queue of backend changes kept in IndexedDB and replayed in order.
+ *
+ * - `submit` sends right away when nothing is queued for the project, and queues the change when the backend is
+ *   unreachable. Errors the server answers with (4xx, including version conflicts) are thrown to the caller.
+ * - `enqueue` only queues.
+ * - The queue is replayed on load, when the browser comes back online, every 30 seconds while not empty, and by
+ *   `syncNow`, which also retries entries the server rejected before. Updates in conflict are never resent.
+ */
+export function useOutbox({ onSent, onConflict }: OutboxOptions) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+  // Source of truth for the replay loop, which must see its own removals before React re-renders
+  const entriesRef = useRef(entries)
+  const onSentRef = useRef(onSent)
+  onSentRef.current = onSent
+  const onConflictRef = useRef(onConflict)
+  onConflictRef.current = onConflict
+  const loadedRef = useRef(false)
+  const syncingRef = useRef(false)
+
+  const update = useCallback((updater: (prev: OutboxEntry[]) => OutboxEntry[]) => {
+    const next = updater(entriesRef.current)
+    entriesRef.current = next
+    setEntries(next)
+    if (loadedRef.current) saveOutbox(next).catch((error) => console.error("Error storing outbox:", error))
+  }, [])
+
+  const enqueue = useCallback(
+    (projectId: string, operation: OutboxOperation) => {
+      update((prev) => enqueueEntry(prev, createOutboxEntry(projectId, operation)))
+    },
+    [update],
+  )
+
+  // Drop everything queued for a project, e.g. when a never uploaded project is deleted
+  const discard = useCallback(
+    (projectId: string) => {
+      update((prev) => prev.filter((entry) => entry.projectId !== projectId))
+    },
+    [update],
+  )
+
+  // Removes and returns the project's update in conflict, if any, for merging with the server's version
+  const takeConflict = useCallback(
+    (projectId: string) => {
+      const conflict = entriesRef.current.find(
+        (entry): entry is QueuedUpdate => entry.projectId === projectId && entry.status === "conflict",
+      )
+      if (conflict) update((prev) => prev.filter((entry) => entry.id !== conflict.id))
+      return conflict ?? null
+    },
+    [update],
+  )
+
+  // Returns how many entries were sent and how many are still queued
+  const replay = useCallback(
+    async (includeFailed: boolean) => {
+      if (syncingRef.current || !loadedRef.current) return null
+      syncingRef.current = true
+      setIsSyncing(true)
+      let sent = 0
+      // Later entries of a project wait for its earlier ones
+      const blocked = new Set<string>()
+      const attempted = new Set<string>()
+
+      try {
+        for (;;) {
+          // Looked up again each time, since a sent upload moves the project's later entries to the server's id
+          const entry = entriesRef.current.find((e) => !attempted.has(e.id) && !blocked.has(e.projectId))
+          if (!entry) break
+          attempted.add(entry.id)
+          if (entry.status === "conflict" || (entry.status === "failed" && !includeFailed)) {
+            blocked.add(entry.projectId)
+            continue
+          }
+
+          try {
+            const result = await sendOperation(entry.projectId, entry)
+            const serverId = entry.kind === "upload" ? result?.id : undefined
+            update((prev) =>
+              prev
+                .filter((e) => e.id !== entry.id)
+                .map((e) => (serverId && e.projectId === entry.projectId ? { ...e, projectId: serverId } : e)),
+            )
+            onSentRef.current(entry, result)
+            sent++
+          } catch (error) {
+            const status = failureStatus(entry, error)
+            update((prev) => recordFailure(prev, entry.id, error))
+            // The backend is still unreachable: no point trying the rest now
+            if (status === "pending") break
+            blocked.add(entry.projectId)
+            const conflict = entriesRef.current.find((e): e is QueuedUpdate => e.id === entry.id && e.status === "conflict")
+            if (conflict) onConflictRef.current(conflict)
+          }
+        }
+      } finally {
+        syncingRef.current = false
+        setIsSyncing(false)
+      }
+
+      return { sent, remaining: entriesRef.current.length }
+    },
+    [update],
+  )
+
+  const syncNow = useCallback(() => replay(true), [replay])
+
+  // Deleted here but not on the server yet, so server listings should leave it out
+  const isPendingDelete = useCallback(
+    (projectId: string) => entriesRef.current.some((entry) => entry.projectId === projectId && entry.kind === "delete"),
+    [],
+  )
+
+  const submit = useCallback(
+    async (projectId: string, operation: OutboxOperation): Promise<SubmitOutcome> => {
+      if (entriesRef.current.some((entry) => entry.projectId === projectId)) {
+        enqueue(projectId, operation)
+        return { status: "queued", error: "Earlier changes to this project are still waiting to be sent" }
+      }
+      try {
+        return { status: "sent", result: await sendOperation(projectId, operation) }
+      } catch (error) {
+        if (error instanceof ApiError && !error.retryable) throw error
+        enqueue(projectId, operation)
+        return { status: "queued", error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+    [enqueue],
+  )
+
+  useEffect(() => {
+    loadOutbox()
+      .then((stored) => {
+        loadedRef.current = true
+        // Entries queued before the stored ones were read are kept after them
+        update((prev) => [...stored, ...prev.filter((entry) => !stored.some((s) => s.id === entry.id))])
+        replay(false)
+      })
+      .catch((error) => console.error("Error loading outbox:", error))
+  }, [update, replay])
+
+  const hasEntries = entries.length > 0
+  useEffect(() => {
+    const handleOnline = () => replay(false)
+    window.addEventListener("online", handleOnline)
+    const interval = hasEntries ? setInterval(handleOnline, RETRY_INTERVAL_MS) : undefined
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      clearInterval(interval)
+    }
+  }, [hasEntries, replay])
+
+  return { entries, isSyncing, enqueue, discard, takeConflict, submit, syncNow, isPendingDelete }
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react"
+import { eventToCombo, type ShortcutAction, type ShortcutBindings } from "@/lib/shortcuts"
+
+// A handler returns false when its action doesn't apply right now; the key press is then left to the browser
+export type ShortcutHandlers = Partial<Record<ShortcutAction, (event: KeyboardEvent) => void | boolean>>
+
+/**
+ * Dispatch key presses to action handlers according to `bindings`.
+ *
+ * Handlers are read from a ref so callers can pass a fresh object every render without re-binding the
+ * listener. Keys typed into form fields or inside an open dialog are ignored.
+ */
+export function useShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    const actions = new Map<string, ShortcutAction>()
+    for (const [action, combos] of Object.entries(bindings) as [ShortcutAction, string[]][]) {
+      combos.forEach((combo) => actions.set(combo, action))
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      if (target?.closest?.("[role='dialog']")) return
+
+      const combo = eventToCombo(e)
+      const action = combo ? actions.get(combo) : undefined
+      const handler = action ? handlersRef.current[action] : undefined
+      if (!handler) return
+      if (handler(e) === false) return
+      e.preventDefault()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [bindings])
+}
@@ -0,0 +1,92 @@
+// Three-way merge of the open project's boxes with a ground truth someone else saved in the meantime
+
+import type { Annotation } from "@/lib/annotations"
+import { sameAnnotation } from "@/lib/project-changes"
+
+export type BoxChange = "unchanged" | "added" | "removed" | "modified"
+
+export type MergeSide = "mine" | "theirs"
+
+// A box that differs between the local and the server version; null means the box doesn't exist on that side
+export interface MergeItem {
+  id: string
+  base: Annotation | null
+  mine: Annotation | null
+  theirs: Annotation | null
+  mineChange: BoxChange
+  theirsChange: BoxChange
+  // Both sides changed the box, and differently
+  conflict: boolean
+}
+
+function sameBox(a: Annotation | null, b: Annotation | null) {
+  return a && b ? sameAnnotation(a, b) : a === b
+}
+
+function changeOf(base: Annotation | null, side: Annotation | null): BoxChange {
+  if (!base) return side ? "added" : "unchanged"
+  if (!side) return "removed"
+  return sameAnnotation(base, side) ? "unchanged" : "modified"
+}
+
+/**
+ * Boxes on which `mine` and `theirs` disagree, both derived from `base` (the version loaded before editing).
+ *
+ * Boxes are matched by id. A box changed the same way on both sides, or changed on neither, is left out.
+ */
+export function findMergeItems(base: Annotation[], mine: Annotation[], theirs: Annotation[]): MergeItem[] {
+  const byId = (annotations: Annotation[]) => new Map(annotations.map((ann) => [ann.id, ann]))
+  const baseById = byId(base)
+  const mineById = byId(mine)
+  const theirsById = byId(theirs)
+  const ids = new Set([...mineById.keys(), ...theirsById.keys(), ...baseById.keys()])
+
+  const items: MergeItem[] = []
+  for (const id of ids) {
+    const baseBox = baseById.get(id) ?? null
+    const mineBox = mineById.get(id) ?? null
+    const theirsBox = theirsById.get(id) ?? null
+    if (sameBox(mineBox, theirsBox)) continue
+
+    const mineChange = changeOf(baseBox, mineBox)
+    const theirsChange = changeOf(baseBox, theirsBox)
+    items.push({
+      id,
+      base: baseBox,
+      mine: mineBox,
+      theirs: theirsBox,
+      mineChange,
+      theirsChange,
+      conflict: mineChange !== "unchanged" && theirsChange !== "unchanged",
+    })
+  }
+  return items
+}
+
+// Keeps whichever side changed the box; conflicts default to the local edit
+export function defaultChoice(item: MergeItem): MergeSide {
+  return item.mineChange === "unchanged" ? "theirs" : "mine"
+}
+
+/**
+ * Merged box list: the chosen side of every item, and the agreed version of every other box.
+ *
+ * Local order is kept, with boxes only the server has appended after it.
+ */
+export function applyMerge(
+  mine: Annotation[],
+  theirs: Annotation[],
+  items: MergeItem[],
+  choices: Record<string, MergeSide>,
+): Annotation[] {
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+  const mineIds = new Set(mine.map((ann) => ann.id))
+  const ordered = [...mine, ...theirs.filter((ann) => !mineIds.has(ann.id))]
+
+  return ordered.flatMap((ann) => {
+    const item = itemsById.get(ann.id)
+    if (!item) return [ann]
+    const chosen = (choices[item.id] ?? defaultChoice(item)) === "mine" ? item.mine : item.theirs
+    return chosen ? [chosen] : []
+  })
+}
@@ -0,0 +1,213 @@
+// Shared annotation models used by the annotator (/main) and the dashboard
+
+// What the element looks like / which state it is in on the screenshot
+export interface ElementAttributes {
+  text?: string
+  placeholder?: string
+  checked?: boolean
+  disabled?: boolean
+  focused?: boolean
+  // Free-form key/values, e.g. { "aria-label": "Search" }
+  extra?: Record<string, string>
+}
+
+// Box coordinates are stored in natural image pixels, independent of how the image is displayed
+export interface Annotation {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+  // Name of a label from the project's taxonomy (see lib/taxonomy.ts)
+  label: string
+  attributes?: ElementAttributes
+  // Container (Form, Group, Card...) this element belongs to
+  parentId?: string
+}
+
+export interface SavedProject {
+  id: string
+  name: string
+  image: string
+  annotations: Annotation[]
+  createdAt: string
+  updatedAt: string
+}
+
+// One element of `ground_truth.elements` as stored by the backend
+export interface GroundTruthElement {
+  id?: string
+  // id of the containing element, if any
+  parent_id?: string
+  type: string
+  text?: string
+  placeholder?: string
+  checked?: boolean
+  disabled?: boolean
+  focused?: boolean
+  attributes?: Record<string, string>
+  position?: { x: number; y: number }
+  width?: number
+  height?: number
+}
+
+// Drop empty values so the backend only receives attributes that were actually filled in
+export function cleanAttributes(attributes: ElementAttributes | undefined): ElementAttributes | undefined {
+  if (!attributes) return undefined
+
+  const cleaned: ElementAttributes = {}
+  if (attributes.text?.trim()) cleaned.text = attributes.text.trim()
+  if (attributes.placeholder?.trim()) cleaned.placeholder = attributes.placeholder.trim()
+  if (attributes.checked) cleaned.checked = true
+  if (attributes.disabled) cleaned.disabled = true
+  if (attributes.focused) cleaned.focused = true
+
+  const extra = Object.entries(attributes.extra ?? {}).filter(([key]) => key.trim())
+  if (extra.length > 0) cleaned.extra = Object.fromEntries(extra.map(([key, value]) => [key.trim(), value]))
+
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined
+}
+
+export function toGroundTruthElement(annotation: Annotation, type: string): GroundTruthElement {
+  const attributes = cleanAttributes(annotation.attributes)
+  return {
+    id: annotation.id,
+    ...(annotation.parentId && { parent_id: annotation.parentId }),
+    type,
+    ...(attributes?.text && { text: attributes.text }),
+    ...(attributes?.placeholder && { placeholder: attributes.placeholder }),
+    ...(attributes?.checked && { checked: true }),
+    ...(attributes?.disabled && { disabled: true }),
+    ...(attributes?.focused && { focused: true }),
+    ...(attributes?.extra && { attributes: attributes.extra }),
+    position: { x: annotation.x, y: annotation.y },
+    width: annotation.width,
+    height: annotation.height,
+  }
+}
+
+export function fromGroundTruthElement(element: GroundTruthElement, index: number, label: string): Annotation {
+  return {
+    id: element.id ?? `${element.type}-${element.position?.x || 0}-${element.position?.y || 0}-${index}`,
+    ...(element.parent_id && { parentId: element.parent_id }),
+    x: element.position?.x || 0,
+    y: element.position?.y || 0,
+    width: element.width || 60,
+    height: element.height || 30,
+    label,
+    attributes: cleanAttributes({
+      text: element.text,
+      placeholder: element.placeholder,
+      checked: element.checked,
+      disabled: element.disabled,
+      focused: element.focused,
+      extra: element.attributes,
+    }),
+  }
+}
+
+// All annotations nested (directly or indirectly) under `id`
+export function getDescendantIds(annotations: Annotation[], id: string): Set<string> {
+  const descendants = new Set<string>()
+  let frontier = [id]
+  while (frontier.length > 0) {
+    const children = annotations.filter((ann) => ann.parentId && frontier.includes(ann.parentId) && !descendants.has(ann.id))
+    children.forEach((child) => descendants.add(child.id))
+    frontier = children.map((child) => child.id)
+  }
+  return descendants
+}
+
+// Smallest container whose box holds the center of `box`, skipping `excludeIds`
+export function findContainerAt(
+  annotations: Annotation[],
+  box: { x: number; y: number; width: number; height: number },
+  isContainer: (annotation: Annotation) => boolean,
+  excludeIds: Set<string> = new Set(),
+): Annotation | null {
+  const cx = box.x + box.width / 2
+  const cy = box.y + box.height / 2
+  let best: Annotation | null = null
+  for (const ann of annotations) {
+    if (excludeIds.has(ann.id) || !isContainer(ann)) continue
+    if (cx < ann.x || cy < ann.y || cx > ann.x + ann.width || cy > ann.y + ann.height) continue
+    if (!best || ann.width * ann.height < best.width * best.height) best = ann
+  }
+  return best
+}
+
+// Depth-first order (parents before their children) with nesting depth, for tree views and paint order
+export function flattenAnnotationTree(annotations: Annotation[]): { annotation: Annotation; depth: number }[] {
+  const ids = new Set(annotations.map((ann) => ann.id))
+  const childrenOf = new Map<string | undefined, Annotation[]>()
+  annotations.forEach((ann) => {
+    // Elements whose parent no longer exists are shown at the top level
+    const parent = ann.parentId && ids.has(ann.parentId) ? ann.parentId : undefined
+    childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), ann])
+  })
+
+  const result: { annotation: Annotation; depth: number }[] = []
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const ann of childrenOf.get(parentId) ?? []) {
+      result.push({ annotation: ann, depth })
+      visit(ann.id, depth + 1)
+    }
+  }
+  visit(undefined, 0)
+  return result
+}
+
+// Remove an annotation; its children move up to its own parent
+export function removeAnnotation(annotations: Annotation[], id: string): Annotation[] {
+  const removed = annotations.find((ann) => ann.id === id)
+  return annotations
+    .filter((ann) => ann.id !== id)
+    .map((ann) => (ann.parentId === id ? { ...ann, parentId: removed?.parentId } : ann))
+}
+
+// Remove several annotations at once; children of removed boxes move up to the nearest remaining ancestor
+export function removeAnnotations(annotations: Annotation[], ids: Iterable<string>): Annotation[] {
+  let result = annotations
+  for (const id of ids) result = removeAnnotation(result, id)
+  return result
+}
+
+export function createAnnotationId() {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 7)}`
+}
+
+// The given annotations plus everything nested under them, in their original order
+export function collectSubtrees(annotations: Annotation[], ids: Iterable<string>): Annotation[] {
+  const included = new Set<string>()
+  for (const id of ids) {
+    included.add(id)
+    getDescendantIds(annotations, id).forEach((descendant) => included.add(descendant))
+  }
+  return annotations.filter((ann) => included.has(ann.id))
+}
+
+// Smallest box enclosing all the given boxes
+export function getBoundingBox(boxes: { x: number; y: number; width: number; height: number }[]) {
+  const left = Math.min(...boxes.map((box) => box.x))
+  const top = Math.min(...boxes.map((box) => box.y))
+  const right = Math.max(...boxes.map((box) => box.x + box.width))
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * Copy annotations with fresh ids, shifted by (dx, dy).
+ *
+ * Parent links inside the copied set point at the copies; a copy whose parent wasn't copied keeps the
+ * original parent, so a pasted radio stays in the same group.
+ */
+export function cloneAnnotations(source: Annotation[], dx: number, dy: number): Annotation[] {
+  const ids = new Map(source.map((ann) => [ann.id, createAnnotationId()]))
+  return source.map((ann) => ({
+    ...ann,
+    id: ids.get(ann.id)!,
+    x: ann.x + dx,
+    y: ann.y + dy,
+    parentId: ann.parentId ? (ids.get(ann.parentId) ?? ann.parentId) : undefined,
+  }))
+}
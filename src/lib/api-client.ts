@@ -0,0 +1,193 @@
+// Typed client of the backend's images API.
+//
+// The base URL is NEXT_PUBLIC_API_BASE_URL (default http://localhost:8080/api/v1), so the UI can be pointed at
+// staging or at scripts/mock-backend.mjs. Requests time out after NEXT_PUBLIC_API_TIMEOUT_MS (default 15s).
+
+import type { Annotation, GroundTruthElement } from "@/lib/annotations"
+import type { PredictedLabels } from "@/lib/predictions"
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080/api/v1").replace(/\/+$/, "")
+const TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS) || 15000
+// Uploads carry the image itself
+const UPLOAD_TIMEOUT_MS = TIMEOUT_MS * 4
+// Idempotent requests are retried this many times, waiting 0.5s, 1s, 2s... in between
+const MAX_RETRIES = 3
+const BACKOFF_MS = 500
+
+export interface ImageRecord {
+  id: string
+  name: string
+  // Where the backend stores the image (MinIO)
+  image_url: string
+  ground_truth?: { elements: GroundTruthElement[] } | null
+  created_at: string
+  // Version of the ground truth, sent back with updates to detect concurrent edits
+  updated_at: string
+}
+
+// `ground_truth` form field of an upload, as built by Save
+export interface UploadGroundTruth {
+  project_name: string
+  annotations: Annotation[]
+  // The annotations mapped to element types through the taxonomy, in the shape the ground truth endpoints use
+  elements: GroundTruthElement[]
+  total_annotations: number
+  created_at: string
+}
+
+export interface ModelPredictionsResponse {
+  image_id?: string
+  predicted_labels: PredictedLabels
+}
+
+// "http": any other error status the server answered with
+export type ApiErrorKind = "network" | "timeout" | "http" | "conflict" | "rateLimited" | "invalidResponse"
+
+// Every failure of the client is one of these, with a message that can be shown as is
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    readonly status?: number,
+    // Set for "rateLimited" when the server says how long to wait
+    readonly retryAfterSeconds?: number,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+
+  // Worth trying again later: the server was unreachable, overloaded or failing
+  get retryable() {
+    return (
+      this.kind === "network" || this.kind === "timeout" || this.kind === "rateLimited" || (this.status ?? 0) >= 500
+    )
+  }
+}
+
+// Message of any error, for toasts
+export function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error"
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE"
+  body?: BodyInit
+  headers?: Record<string, string>
+  timeoutMs?: number
+  // Safe to send again when it failed without an answer; defaults to every method but POST
+  idempotent?: boolean
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// The backend answers errors with `{error}`, `{detail}` or `{message}`
+async function readErrorBody(response: Response): Promise<{ message?: string; retry_after_seconds?: number }> {
+  try {
+    const body = await response.json()
+    return { message: body.error ?? body.detail ?? body.message, retry_after_seconds: body.retry_after_seconds }
+  } catch {
+    return {}
+  }
+}
+
+async function send<T>(path: string, { method = "GET", body, headers, timeoutMs = TIMEOUT_MS }: RequestOptions) {
+  let response: Response
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, { method, body, headers, signal: AbortSignal.timeout(timeoutMs) })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new ApiError(`The server did not answer within ${Math.round(timeoutMs / 1000)}s`, "timeout")
+    }
+    throw new ApiError("Could not reach the server", "network")
+  }
+
+  if (!response.ok) {
+    const { message, retry_after_seconds } = await readErrorBody(response)
+    const detail = message ? `: ${message}` : ""
+    if (response.status === 409 || response.status === 412) {
+      throw new ApiError("The ground truth was changed on the server since it was loaded", "conflict", response.status)
+    }
+    if (response.status === 429) {
+      const retryAfter = retry_after_seconds ?? (Number(response.headers.get("Retry-After")) || undefined)
+      throw new ApiError(`Too many requests${detail}`, "rateLimited", 429, retryAfter)
+    }
+    throw new ApiError(`Server responded ${response.status}${detail}`, "http", response.status)
+  }
+
+  if (response.status === 204) return null
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    throw new ApiError("The server sent an invalid response", "invalidResponse", response.status)
+  }
+}
+
+// Sends the request, retrying idempotent ones with exponential backoff while the failure is retryable
+async function request<T>(path: string, options: RequestOptions = {}): Promise<T | null> {
+  const idempotent = options.idempotent ?? options.method !== "POST"
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send<T>(path, options)
+    } catch (error) {
+      if (!idempotent || !(error instanceof ApiError) || !error.retryable || attempt >= MAX_RETRIES) throw error
+      await sleep(BACKOFF_MS * 2 ** attempt)
+    }
+  }
+}
+
+// Same as `request`, for endpoints that always answer with a body
+async function requestBody<T>(path: string, options?: RequestOptions): Promise<T> {
+  const body = await request<T>(path, options)
+  if (body === null) throw new ApiError("The server sent an empty response", "invalidResponse")
+  return body
+}
+
+export function fetchImages() {
+  return requestBody<ImageRecord[]>("/images/")
+}
+
+export function fetchImage(imageId: string) {
+  return requestBody<ImageRecord>(`/images/${imageId}`)
+}
+
+export function uploadImage(image: File, groundTruth?: UploadGroundTruth) {
+  const formData = new FormData()
+  formData.append("image", image)
+  if (groundTruth) formData.append("ground_truth", JSON.stringify(groundTruth))
+  return requestBody<ImageRecord>("/images/upload", { method: "POST", body: formData, timeoutMs: UPLOAD_TIMEOUT_MS })
+}
+
+/**
+ * Replace the ground truth of an image.
+ *
+ * With `baseVersion` (the `updated_at` the edit started from) the server rejects the update with a "conflict" error
+ * when someone else updated the image since. Resolves with the updated image, if the server sends it.
+ */
+export function putGroundTruth(imageId: string, elements: GroundTruthElement[], baseVersion?: string) {
+  return request<ImageRecord>(`/images/${imageId}/ground-truth`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      ...(baseVersion && { "If-Match": `"${baseVersion}"` }),
+    },
+    body: JSON.stringify({ ground_truth: { elements }, ...(baseVersion && { updated_at: baseVersion }) }),
+  })
+}
+
+export async function deleteImage(imageId: string) {
+  await request(`/images/${imageId}`, { method: "DELETE" })
+}
+
+// Queues the models on an image; results arrive over the prediction webhook. Rate limited per image.
+export async function startPrediction(imageId: string) {
+  // A GET, but each call starts a run
+  await request(`/images/${imageId}/predict`, { idempotent: false })
+}
+
+export function fetchModelPredictions(imageId: string) {
+  return requestBody<ModelPredictionsResponse>(`/images/${imageId}/predict/model`)
+}
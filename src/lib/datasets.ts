@@ -0,0 +1,128 @@
+// Datasets: named, ordered groups of projects (one image each) that are labeled one after another
+
+import type { SavedProject } from "@/lib/annotations"
+
+export interface Dataset {
+  id: string
+  name: string
+  // Project ids in filmstrip order
+  projectIds: string[]
+  // Projects whose annotations have been checked and signed off
+  reviewedIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+// "labeled" means at least one box; "reviewed" is set by hand and wins over the box count
+export type ImageStatus = "unlabeled" | "labeled" | "reviewed"
+
+export type DatasetProgress = Record<ImageStatus, number> & { total: number }
+
+const STORAGE_KEY = "ui-annotation-datasets"
+
+export const STATUS_COLORS: Record<ImageStatus, string> = {
+  unlabeled: "#9ca3af",
+  labeled: "#3b82f6",
+  reviewed: "#22c55e",
+}
+
+export function createDataset(name: string, projectIds: string[] = []): Dataset {
+  const now = new Date().toISOString()
+  return { id: `dataset-${Date.now()}`, name, projectIds, reviewedIds: [], createdAt: now, updatedAt: now }
+}
+
+export function getImageStatus(dataset: Dataset, project: SavedProject | undefined): ImageStatus {
+  if (project && dataset.reviewedIds.includes(project.id)) return "reviewed"
+  return project && project.annotations.length > 0 ? "labeled" : "unlabeled"
+}
+
+// Projects that no longer exist are left out of the counts
+export function getDatasetProgress(dataset: Dataset, projects: SavedProject[]): DatasetProgress {
+  const progress: DatasetProgress = { unlabeled: 0, labeled: 0, reviewed: 0, total: 0 }
+  for (const id of dataset.projectIds) {
+    const project = projects.find((p) => p.id === id)
+    if (!project) continue
+    progress[getImageStatus(dataset, project)]++
+    progress.total++
+  }
+  return progress
+}
+
+// First unlabeled image after `currentId`, wrapping around; null when every image has boxes
+export function findNextUnlabeled(dataset: Dataset, projects: SavedProject[], currentId: string | null): string | null {
+  const start = currentId ? dataset.projectIds.indexOf(currentId) : -1
+  for (let step = 1; step <= dataset.projectIds.length; step++) {
+    const id = dataset.projectIds[(start + step) % dataset.projectIds.length]
+    if (id === currentId) continue
+    const project = projects.find((p) => p.id === id)
+    if (project && getImageStatus(dataset, project) === "unlabeled") return id
+  }
+  return null
+}
+
+// Neighbor of `currentId` in the dataset's order (wrapping around at either end)
+export function getAdjacentProjectId(dataset: Dataset, currentId: string | null, step: 1 | -1): string | null {
+  const ids = dataset.projectIds
+  if (ids.length === 0) return null
+  const index = currentId ? ids.indexOf(currentId) : -1
+  return index < 0 && step < 0 ? ids[ids.length - 1] : ids[(index + step + ids.length) % ids.length]
+}
+
+export function findDatasetOfProject(datasets: Dataset[], projectId: string | null) {
+  return projectId ? datasets.find((dataset) => dataset.projectIds.includes(projectId)) : undefined
+}
+
+// A project belongs to at most one dataset: it is taken out of any other before being appended to `datasetId`
+export function assignProjectToDataset(datasets: Dataset[], projectId: string, datasetId: string | null): Dataset[] {
+  const now = new Date().toISOString()
+  return datasets.map((dataset) => {
+    if (dataset.id === datasetId) {
+      return dataset.projectIds.includes(projectId)
+        ? dataset
+        : { ...dataset, projectIds: [...dataset.projectIds, projectId], updatedAt: now }
+    }
+    if (!dataset.projectIds.includes(projectId)) return dataset
+    return {
+      ...dataset,
+      projectIds: dataset.projectIds.filter((id) => id !== projectId),
+      reviewedIds: dataset.reviewedIds.filter((id) => id !== projectId),
+      updatedAt: now,
+    }
+  })
+}
+
+export function setProjectReviewed(datasets: Dataset[], projectId: string, reviewed: boolean): Dataset[] {
+  return datasets.map((dataset) => {
+    if (!dataset.projectIds.includes(projectId)) return dataset
+    const reviewedIds = dataset.reviewedIds.filter((id) => id !== projectId)
+    return {
+      ...dataset,
+      reviewedIds: reviewed ? [...reviewedIds, projectId] : reviewedIds,
+      updatedAt: new Date().toISOString(),
+    }
+  })
+}
+
+// A project saved while offline gets its id from the server once uploaded; it keeps its place and review state
+export function renameProjectInDatasets(datasets: Dataset[], oldId: string, newId: string): Dataset[] {
+  const rename = (id: string) => (id === oldId ? newId : id)
+  return datasets.map((dataset) =>
+    dataset.projectIds.includes(oldId)
+      ? { ...dataset, projectIds: dataset.projectIds.map(rename), reviewedIds: dataset.reviewedIds.map(rename) }
+      : dataset,
+  )
+}
+
+export function loadDatasets(): Dataset[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch (error) {
+    console.error("Error loading datasets:", error)
+    return []
+  }
+}
+
+export function saveDatasets(datasets: Dataset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(datasets))
+}
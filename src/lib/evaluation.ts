@@ -0,0 +1,159 @@
+// Matching predicted boxes against ground truth, shared by the dashboard metrics and the comparison view
+
+import type { Annotation } from "@/lib/annotations"
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface Metrics {
+  total_ground_truth: number
+  true_positives: number
+  false_positives: number
+  false_negatives: number
+  precision: number
+  recall: number
+  f1_score: number
+}
+
+export interface EvaluationResults {
+  [tag: string]: Metrics
+}
+
+// "tp": matched, "fn": ground truth nobody predicted, "fp": prediction matching no ground truth
+export type MatchOutcome = "tp" | "fp" | "fn"
+
+export interface MatchResult {
+  // Outcome per ground truth box, in the order given
+  groundTruth: MatchOutcome[]
+  // Outcome per predicted box, in the order given
+  predictions: MatchOutcome[]
+}
+
+// Helper function for IoU (Intersection over Union)
+export function calculateIoU(box1: Rect, box2: Rect): number {
+  const x_overlap = Math.max(0, Math.min(box1.x + box1.width, box2.x + box2.width) - Math.max(box1.x, box2.x))
+  const y_overlap = Math.max(0, Math.min(box1.y + box1.height, box2.y + box2.height) - Math.max(box1.y, box2.y))
+
+  const intersection_area = x_overlap * y_overlap
+  const box1_area = box1.width * box1.height
+  const box2_area = box2.width * box2.height
+  const union_area = box1_area + box2_area - intersection_area
+
+  return union_area === 0 ? 0 : intersection_area / union_area
+}
+
+// Greedy matching: each ground truth box takes the unmatched prediction of the same label with the best IoU
+export function matchPredictions(
+  groundTruthAnnotations: Annotation[],
+  predictionAnnotations: Annotation[],
+  iouThreshold = 0.5,
+): MatchResult {
+  const matchedPredIndices = new Set<number>()
+
+  const groundTruth = groundTruthAnnotations.map((gtBox): MatchOutcome => {
+    let bestIoU = 0
+    let bestPredIndex = -1
+
+    for (let i = 0; i < predictionAnnotations.length; i++) {
+      const predBox = predictionAnnotations[i]
+      if (predBox.label === gtBox.label && !matchedPredIndices.has(i)) {
+        const iou = calculateIoU(gtBox, predBox)
+        if (iou > bestIoU) {
+          bestIoU = iou
+          bestPredIndex = i
+        }
+      }
+    }
+
+    if (bestIoU >= iouThreshold) {
+      matchedPredIndices.add(bestPredIndex)
+      return "tp"
+    }
+    return "fn"
+  })
+
+  const predictions = predictionAnnotations.map((_, i): MatchOutcome => (matchedPredIndices.has(i) ? "tp" : "fp"))
+
+  return { groundTruth, predictions }
+}
+
+// Function to evaluate a single image's annotations
+export function evaluateSingleImage(
+  groundTruthAnnotations: Annotation[],
+  predictionAnnotations: Annotation[],
+  labels: string[],
+  iouThreshold = 0.5,
+): EvaluationResults {
+  const metrics: EvaluationResults = {}
+
+  labels.forEach((label) => {
+    metrics[label] = {
+      total_ground_truth: 0,
+      true_positives: 0,
+      false_positives: 0,
+      false_negatives: 0,
+      precision: 0,
+      recall: 0,
+      f1_score: 0,
+    }
+  })
+
+  // Ground truth with labels outside the evaluated set is ignored
+  const groundTruth = groundTruthAnnotations.filter((gtBox) => metrics[gtBox.label])
+  const match = matchPredictions(groundTruth, predictionAnnotations, iouThreshold)
+
+  groundTruth.forEach((gtBox, i) => {
+    metrics[gtBox.label].total_ground_truth++
+    if (match.groundTruth[i] === "tp") metrics[gtBox.label].true_positives++
+    else metrics[gtBox.label].false_negatives++
+  })
+
+  predictionAnnotations.forEach((predBox, i) => {
+    if (match.predictions[i] === "fp" && metrics[predBox.label]) metrics[predBox.label].false_positives++
+  })
+
+  labels.forEach((label) => updateRates(metrics[label]))
+
+  return metrics
+}
+
+// Metrics of a whole dataset: TP/FP/FN are summed over its images per label, then the rates are computed from the totals
+export function evaluateDataset(
+  images: { groundTruth: Annotation[]; predictions: Annotation[] }[],
+  labels: string[],
+  iouThreshold = 0.5,
+): EvaluationResults {
+  const totals = evaluateSingleImage([], [], labels)
+
+  images.forEach(({ groundTruth, predictions }) => {
+    const results = evaluateSingleImage(groundTruth, predictions, labels, iouThreshold)
+    labels.forEach((label) => {
+      totals[label].total_ground_truth += results[label].total_ground_truth
+      totals[label].true_positives += results[label].true_positives
+      totals[label].false_positives += results[label].false_positives
+      totals[label].false_negatives += results[label].false_negatives
+    })
+  })
+
+  labels.forEach((label) => updateRates(totals[label]))
+
+  return totals
+}
+
+function updateRates(metrics: Metrics) {
+  const tp = metrics.true_positives
+  const fp = metrics.false_positives
+  const fn = metrics.false_negatives
+
+  const precision = tp + fp === 0 ? 0 : tp / (tp + fp)
+  const recall = tp + fn === 0 ? 0 : tp / (tp + fn)
+  const f1_score = precision + recall === 0 ? 0 : (2 * (precision * recall)) / (precision + recall)
+
+  metrics.precision = precision
+  metrics.recall = recall
+  metrics.f1_score = f1_score
+}
@@ -0,0 +1,50 @@
+// Turning dropped, pasted or picked image files into new projects
+
+// An image read from disk or the clipboard, waiting to become a project
+export interface PendingImage {
+  // data: URL of the image
+  image: string
+  // Project name suggested from the file name
+  name: string
+}
+
+export function isImageFile(file: File) {
+  return file.type.startsWith("image/")
+}
+
+// "login_screen-v2.png" -> "login screen-v2"
+export function projectNameFromFileName(fileName: string) {
+  const base = fileName.replace(/\.[^.]+$/, "")
+  return base.replace(/_+/g, " ").trim() || fileName
+}
+
+// Clipboard screenshots all arrive as "image.png", so they are named after the time they were pasted
+export function screenshotName(date = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `Screenshot ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}`
+}
+
+export function readImageFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
+
+// Reads the image files in the order given; files of other types are skipped
+export async function readPendingImages(
+  files: File[],
+  nameOf: (file: File) => string = (file) => projectNameFromFileName(file.name),
+): Promise<PendingImage[]> {
+  return Promise.all(
+    files.filter(isImageFile).map(async (file) => ({ image: await readImageFile(file), name: nameOf(file) })),
+  )
+}
+
+// Final project name with the optional bulk prefix, e.g. "Checkout flow - step 1"
+export function withNamePrefix(prefix: string, name: string) {
+  const trimmed = prefix.trim()
+  return trimmed ? `${trimmed} - ${name}` : name
+}
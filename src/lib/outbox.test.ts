@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import type { GroundTruthElement } from "@/lib/annotations"
+import { ApiError } from "@/lib/api-client"
+import { createOutboxEntry, enqueueEntry, failureStatus, getSyncStatus, recordFailure } from "@/lib/outbox"
+
+const SERVER_IMAGE = "https://minio.local/images/1.png"
+
+function element(id: string, x: number): GroundTruthElement {
+  return { id, type: "button", position: { x, y: 0 }, width: 10, height: 10 }
+}
+
+function queuedUpdate(elements: GroundTruthElement[], baseElements: GroundTruthElement[]) {
+  return createOutboxEntry("1", { kind: "updateGroundTruth", elements, baseVersion: "v1", baseElements })
+}
+
+const conflict = () => new ApiError("The ground truth was changed by someone else", "conflict", 409)
+
+test("a queued update rejected as stale waits for a merge instead of failing", () => {
+  const entry = queuedUpdate([element("a", 5)], [element("a", 0)])
+
+  const entries = recordFailure([entry], entry.id, conflict())
+
+  assert.equal(entries[0].status, "conflict")
+  assert.equal(entries[0].attempts, 1)
+  assert.equal(getSyncStatus(entries, "1", SERVER_IMAGE), "conflict")
+})
+
+test("an update queued after a conflict is sent again, merging from the base of the stale one", () => {
+  const stale = queuedUpdate([element("a", 5)], [element("a", 0)])
+  const [entry] = recordFailure([stale], stale.id, conflict())
+
+  // Its own base is the stale update's boxes, which the server never accepted
+  const next = queuedUpdate([element("a", 8)], [element("a", 5)])
+  const entries = enqueueEntry([entry], next)
+
+  assert.equal(entries.length, 1)
+  assert.equal(entries[0].status, "pending")
+  assert.ok(entries[0].kind === "updateGroundTruth")
+  assert.deepEqual(entries[0].elements, [element("a", 8)])
+  assert.equal(entries[0].baseVersion, "v1")
+  assert.deepEqual(entries[0].baseElements, [element("a", 0)])
+})
+
+test("only ground truth updates go into conflict; an unreachable server keeps entries pending", () => {
+  const remove = createOutboxEntry("1", { kind: "delete" })
+  const update = queuedUpdate([], [])
+
+  assert.equal(failureStatus(remove, conflict()), "failed")
+  assert.equal(failureStatus(update, new ApiError("Could not reach the server", "network")), "pending")
+  assert.equal(failureStatus(update, new ApiError("Bad request", "http", 400)), "failed")
+})
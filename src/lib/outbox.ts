@@ -0,0 +1,118 @@
+// Backend changes that could not be sent yet (offline, server down), replayed in order once it is reachable again
+
+import type { GroundTruthElement } from "@/lib/annotations"
+import {
+  ApiError,
+  deleteImage,
+  putGroundTruth,
+  uploadImage,
+  type ImageRecord,
+  type UploadGroundTruth,
+} from "@/lib/api-client"
+
+export type OutboxOperation =
+  | { kind: "upload"; name: string; image: string; groundTruth: UploadGroundTruth }
+  // `baseVersion`: `updated_at` of the ground truth the edit started from, unset for images not uploaded yet.
+  // `baseElements`: that ground truth itself, to merge from when the server has moved on in the meantime.
+  | { kind: "updateGroundTruth"; elements: GroundTruthElement[]; baseVersion?: string; baseElements?: GroundTruthElement[] }
+  | { kind: "delete" }
+
+export type OutboxEntry = OutboxOperation & {
+  id: string
+  projectId: string
+  createdAt: string
+  attempts: number
+  // "failed": the server rejected it; it is only retried by "Sync now".
+  // "conflict": a ground truth update the server's version moved past; it waits for the user to merge it.
+  status: "pending" | "failed" | "conflict"
+  lastError?: string
+}
+
+// "local": created in this browser and never queued for upload
+export type SyncStatus = "synced" | "pending" | "failed" | "conflict" | "local"
+
+export type QueuedUpdate = Extract<OutboxEntry, { kind: "updateGroundTruth" }>
+
+// What the server answers to an upload or ground truth update
+export type SendResult = ImageRecord | null
+
+export function createOutboxEntry(projectId: string, operation: OutboxOperation): OutboxEntry {
+  return {
+    ...operation,
+    id: `outbox-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+    projectId,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    status: "pending",
+  }
+}
+
+/**
+ * Append `entry`, folding it into what is already queued for the same project:
+ * - an upload or ground truth update replaces the older ones, since it carries the latest annotations. A replaced
+ *   update hands on its base, the version the queued edits started from, even when it was in conflict;
+ * - a delete drops everything queued for the project, and is not sent at all if the project never reached the server.
+ */
+export function enqueueEntry(entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] {
+  const others = entries.filter((e) => e.projectId !== entry.projectId)
+  const queued = entries.filter((e) => e.projectId === entry.projectId)
+
+  if (entry.kind === "delete") {
+    return queued.some((e) => e.kind === "upload") ? others : [...others, entry]
+  }
+  if (entry.kind === "upload") return [...others, entry]
+
+  // A queued upload still has to create the image; the update follows it
+  const replaced = queued.find((e): e is QueuedUpdate => e.kind === "updateGroundTruth")
+  const update = replaced ? { ...entry, baseVersion: replaced.baseVersion, baseElements: replaced.baseElements } : entry
+  return [...others, ...queued.filter((e) => e.kind === "upload"), update]
+}
+
+// What becomes of an entry the server didn't take: retried later, merged by the user, or left for "Sync now"
+export function failureStatus(entry: OutboxEntry, error: unknown): OutboxEntry["status"] {
+  if (!(error instanceof ApiError) || error.retryable) return "pending"
+  return error.kind === "conflict" && entry.kind === "updateGroundTruth" ? "conflict" : "failed"
+}
+
+export function recordFailure(entries: OutboxEntry[], entryId: string, error: unknown): OutboxEntry[] {
+  return entries.map((e) =>
+    e.id === entryId
+      ? {
+          ...e,
+          attempts: e.attempts + 1,
+          status: failureStatus(e, error),
+          lastError: error instanceof Error ? error.message : String(error),
+        }
+      : e,
+  )
+}
+
+export function getSyncStatus(entries: OutboxEntry[], projectId: string, image: string): SyncStatus {
+  const queued = entries.filter((e) => e.projectId === projectId)
+  if (queued.some((e) => e.status === "conflict")) return "conflict"
+  if (queued.some((e) => e.status === "failed")) return "failed"
+  if (queued.length > 0) return "pending"
+  return image.startsWith("data:") ? "local" : "synced"
+}
+
+function dataUrlToFile(dataUrl: string, filename: string): File {
+  const [header, data] = dataUrl.split(",")
+  const mime = header.match(/:(.*?);/)?.[1] || "image/png"
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+  return new File([bytes], filename, { type: mime })
+}
+
+// Sends one operation to the backend; resolves with the server's answer for uploads and ground truth updates.
+// Failures are `ApiError`s: retryable ones (no connection, 5xx) stay queued, the others need the user's attention.
+export async function sendOperation(projectId: string, operation: OutboxOperation): Promise<SendResult> {
+  switch (operation.kind) {
+    case "upload":
+      return uploadImage(dataUrlToFile(operation.image, `${operation.name}.png`), operation.groundTruth)
+    case "updateGroundTruth":
+      // Rejected with a "conflict" error when the server's `updated_at` no longer matches
+      return putGroundTruth(projectId, operation.elements, operation.baseVersion)
+    case "delete":
+      await deleteImage(projectId)
+      return null
+  }
+}
@@ -0,0 +1,187 @@
+// Local pixel analysis of the screenshot, used to propose and tighten boxes without calling the backend
+
+export interface PixelBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// How far (max per-channel difference, 0-255) a pixel may be from the reference color to count as "the same"
+export const DEFAULT_COLOR_TOLERANCE = 24
+
+// A grown region bigger than this share of the image has leaked into the page background
+const MAX_REGION_SHARE = 0.35
+
+// Regions smaller than this (px) are probably a glyph or an icon stroke rather than the element itself
+const MIN_REGION_SIZE = 6
+
+// Distance (px) outside a box at which its surrounding background color is sampled
+const BACKGROUND_RING = 2
+
+let cached: { src: string; data: ImageData } | null = null
+
+// Decode an image at its natural resolution. Remote images must be served with CORS headers,
+// otherwise the canvas is tainted and reading pixels fails.
+export async function loadImageData(src: string): Promise<ImageData> {
+  if (cached?.src === src) return cached.data
+
+  const img = new Image()
+  img.crossOrigin = "anonymous"
+  img.src = src
+  await img.decode()
+
+  const canvas = document.createElement("canvas")
+  canvas.width = img.naturalWidth
+  canvas.height = img.naturalHeight
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })
+  if (!ctx) throw new Error("Canvas 2D context is not available")
+  ctx.drawImage(img, 0, 0)
+
+  try {
+    const data = ctx.getImageData(0, 0, canvas.width, canvas.height)
+    cached = { src, data }
+    return data
+  } catch {
+    throw new Error("The image server does not allow reading pixels (missing CORS headers)")
+  }
+}
+
+function colorAt(data: ImageData, x: number, y: number): [number, number, number] {
+  const i = (y * data.width + x) * 4
+  return [data.data[i], data.data[i + 1], data.data[i + 2]]
+}
+
+function isSimilar(a: [number, number, number], b: [number, number, number], tolerance: number) {
+  return Math.abs(a[0] - b[0]) <= tolerance && Math.abs(a[1] - b[1]) <= tolerance && Math.abs(a[2] - b[2]) <= tolerance
+}
+
+// Flood fill from a seed, returning the bounding box of the connected region of similar color
+function growRegion(data: ImageData, seedX: number, seedY: number, tolerance: number): PixelBox | null {
+  const { width, height } = data
+  const seed = colorAt(data, seedX, seedY)
+  const visited = new Uint8Array(width * height)
+  const maxPixels = width * height * MAX_REGION_SHARE
+  const stack = [seedY * width + seedX]
+  visited[stack[0]] = 1
+
+  let minX = seedX
+  let maxX = seedX
+  let minY = seedY
+  let maxY = seedY
+  let count = 0
+
+  while (stack.length > 0) {
+    const index = stack.pop()!
+    const x = index % width
+    const y = (index - x) / width
+    if (++count > maxPixels) return null
+
+    if (x < minX) minX = x
+    if (x > maxX) maxX = x
+    if (y < minY) minY = y
+    if (y > maxY) maxY = y
+
+    const neighbors = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      y > 0 ? index - width : -1,
+      y < height - 1 ? index + width : -1,
+    ]
+    for (const n of neighbors) {
+      if (n < 0 || visited[n]) continue
+      visited[n] = 1
+      if (isSimilar(colorAt(data, n % width, Math.floor(n / width)), seed, tolerance)) stack.push(n)
+    }
+  }
+
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+}
+
+/**
+ * Propose a tight box around the UI element under (x, y).
+ *
+ * Grows the region of similar color around the click (e.g. a button's background); when the click lands
+ * on text or an icon stroke the region is tiny, so it retries from just outside that glyph. Returns null
+ * when the region leaks into the page background, which means there is no distinct element there.
+ */
+export function proposeBoxAt(data: ImageData, x: number, y: number, tolerance = DEFAULT_COLOR_TOLERANCE): PixelBox | null {
+  const seedX = Math.round(x)
+  const seedY = Math.round(y)
+  if (seedX < 0 || seedY < 0 || seedX >= data.width || seedY >= data.height) return null
+
+  let region = growRegion(data, seedX, seedY, tolerance)
+  if (region && (region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE)) {
+    const retryX = region.x > 1 ? region.x - 2 : region.x + region.width + 1
+    if (retryX < data.width) {
+      const retry = growRegion(data, retryX, seedY, tolerance)
+      if (retry && retry.x <= region.x && retry.x + retry.width >= region.x + region.width) region = retry
+    }
+  }
+
+  if (!region || region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) return null
+  return region
+}
+
+/**
+ * Shrink a box to the visible edges of what is inside it.
+ *
+ * The background color is sampled from a ring just outside the box (so an already tight box around a
+ * colored button stays put); each side moves inward while its whole row/column still matches that
+ * background. Returns null if the box is empty (all background).
+ */
+export function tightenBox(data: ImageData, box: PixelBox, tolerance = DEFAULT_COLOR_TOLERANCE): PixelBox | null {
+  let left = Math.max(0, Math.floor(box.x))
+  let top = Math.max(0, Math.floor(box.y))
+  let right = Math.min(data.width - 1, Math.ceil(box.x + box.width) - 1)
+  let bottom = Math.min(data.height - 1, Math.ceil(box.y + box.height) - 1)
+  if (right <= left || bottom <= top) return null
+
+  const background = perimeterColor(
+    data,
+    Math.max(0, left - BACKGROUND_RING),
+    Math.max(0, top - BACKGROUND_RING),
+    Math.min(data.width - 1, right + BACKGROUND_RING),
+    Math.min(data.height - 1, bottom + BACKGROUND_RING),
+  )
+  const rowIsBackground = (y: number) => {
+    for (let x = left; x <= right; x++) if (!isSimilar(colorAt(data, x, y), background, tolerance)) return false
+    return true
+  }
+  const columnIsBackground = (x: number) => {
+    for (let y = top; y <= bottom; y++) if (!isSimilar(colorAt(data, x, y), background, tolerance)) return false
+    return true
+  }
+
+  while (top < bottom && rowIsBackground(top)) top++
+  while (bottom > top && rowIsBackground(bottom)) bottom--
+  while (left < right && columnIsBackground(left)) left++
+  while (right > left && columnIsBackground(right)) right--
+
+  if (right - left + 1 < 2 || bottom - top + 1 < 2) return null
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 }
+}
+
+// Most common (quantized) color along the edge of a rectangle
+function perimeterColor(data: ImageData, left: number, top: number, right: number, bottom: number): [number, number, number] {
+  const counts = new Map<number, { count: number; color: [number, number, number] }>()
+  const add = (x: number, y: number) => {
+    const color = colorAt(data, x, y)
+    const key = ((color[0] >> 3) << 10) | ((color[1] >> 3) << 5) | (color[2] >> 3)
+    const entry = counts.get(key)
+    if (entry) entry.count++
+    else counts.set(key, { count: 1, color })
+  }
+  for (let x = left; x <= right; x++) {
+    add(x, top)
+    add(x, bottom)
+  }
+  for (let y = top + 1; y < bottom; y++) {
+    add(left, y)
+    add(right, y)
+  }
+
+  let best: { count: number; color: [number, number, number] } | null = null
+  for (const entry of counts.values()) if (!best || entry.count > best.count) best = entry
+  return best?.color ?? [255, 255, 255]
+}
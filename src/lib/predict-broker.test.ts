@@ -0,0 +1,123 @@
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, statSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, test } from "node:test"
+import { FileBroker, type PredictListener } from "@/lib/predict-broker"
+import type { PredictStreamEvent, StoredPredictEvent } from "@/lib/predict-stream"
+
+let dir: string
+let brokers: FileBroker[]
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "predict-broker-"))
+  brokers = []
+})
+
+afterEach(() => {
+  brokers.forEach((broker) => broker.close())
+  rmSync(dir, { recursive: true, force: true })
+})
+
+// Brokers sharing one file stand in for server instances
+function createBroker(historySize?: number, maxFileBytes?: number) {
+  const broker = new FileBroker(join(dir, "events.jsonl"), historySize, maxFileBytes)
+  brokers.push(broker)
+  return broker
+}
+
+function completed(imageId: string): PredictStreamEvent {
+  return { type: "completed", image_id: imageId, model: "yolo", element_count: 3, latency_ms: 1200 }
+}
+
+// Resolves with the first event delivered to `broker`'s subscribers
+function nextEvent(broker: FileBroker, timeoutMs = 2000) {
+  return new Promise<StoredPredictEvent>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("No event delivered")), timeoutMs)
+    const listener: PredictListener = (stored) => {
+      clearTimeout(timer)
+      unsubscribe()
+      resolve(stored)
+    }
+    const unsubscribe = broker.subscribe(listener)
+  })
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out")
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  }
+}
+
+test("delivers an event published on one instance to the subscribers of another, under the same id", async () => {
+  const publisher = createBroker()
+  const receiver = createBroker()
+  const published = nextEvent(publisher)
+  const received = nextEvent(receiver)
+
+  await publisher.publish(completed("1"))
+
+  const [own, other] = await Promise.all([published, received])
+  assert.deepEqual(other.event, completed("1"))
+  assert.equal(other.id, own.id)
+
+  // A third instance started afterwards finds it in its history
+  assert.deepEqual(createBroker().recent(), [other])
+})
+
+test("an instance started later has earlier events in its history", async () => {
+  const publisher = createBroker()
+  await publisher.publish(completed("1"))
+  await publisher.publish(completed("2"))
+
+  const late = createBroker()
+  assert.deepEqual(
+    late.recent().map(({ event }) => event.image_id),
+    ["1", "2"],
+  )
+  assert.deepEqual(
+    late.recent().map(({ id }) => id),
+    publisher.recent().map(({ id }) => id),
+  )
+})
+
+test("a new instance only loads the last historySize events", async () => {
+  const publisher = createBroker()
+  for (let i = 1; i <= 5; i++) await publisher.publish(completed(String(i)))
+
+  const late = createBroker(2)
+  assert.deepEqual(
+    late.recent().map(({ event }) => event.image_id),
+    ["4", "5"],
+  )
+})
+
+test("rotates the file past its size cap and keeps delivering under a new epoch", async () => {
+  const publisher = createBroker(10, 300)
+  const receiver = createBroker(10, 300)
+  await publisher.publish(completed("1"))
+  await waitFor(() => receiver.recent().length === 1)
+  // The third event takes the file past 300 bytes
+  await publisher.publish(completed("2"))
+  await publisher.publish(completed("3"))
+  assert.ok(statSync(join(dir, "events.jsonl.1")).size > 0)
+  // The receiver finishes the rotated file before moving on
+  await waitFor(() => receiver.recent().length === 3)
+
+  const received = nextEvent(receiver)
+  await publisher.publish(completed("4"))
+  const stored = await received
+  assert.equal(stored.event.image_id, "4")
+
+  const epochs = new Set(publisher.recent().map(({ id }) => id.split(":")[0]))
+  assert.equal(epochs.size, 2)
+  // History of a later instance spans the rotated file
+  assert.deepEqual(
+    createBroker(10, 300)
+      .recent()
+      .map(({ event }) => event.image_id),
+    ["1", "2", "3", "4"],
+  )
+})
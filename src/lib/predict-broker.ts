@@ -0,0 +1,347 @@
+// Fan-out of prediction events from the webhook to the stream subscribers, possibly on other server instances.
+//
+// PREDICT_BROKER picks the implementation:
+// - "memory" (default): within this process only;
+// - "file": through an append-only file shared by every instance on the host (PREDICT_BROKER_FILE), rotated once
+//   it passes PREDICT_BROKER_MAX_FILE_BYTES (default 16 MB).
+// Socket- or Redis-based adapters only have to implement `PredictBroker`.
+
+import { closeSync, constants, openSync, readSync, renameSync, rmSync, statSync, unwatchFile, watchFile } from "node:fs"
+import { appendFile, writeFile } from "node:fs/promises"
+import { randomUUID } from "node:crypto"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { formatEventId, type PredictStreamEvent, type StoredPredictEvent } from "@/lib/predict-stream"
+import { RingBuffer } from "@/lib/ring-buffer"
+
+export type PredictListener = (stored: StoredPredictEvent) => void
+
+export interface PredictBroker {
+  // Delivers `event` to the subscribers of every instance, under an id that increases with each event of an epoch
+  publish(event: PredictStreamEvent): Promise<void>
+  // Returns the function that unsubscribes
+  subscribe(listener: PredictListener): () => void
+  // Latest events, oldest first, for replaying to reconnecting clients
+  recent(): StoredPredictEvent[]
+}
+
+const DEFAULT_HISTORY_SIZE = 200
+const FILE_POLL_MS = 250
+const FILE_READ_CHUNK_BYTES = 64 * 1024
+const DEFAULT_MAX_FILE_BYTES = 16 * 1024 * 1024
+// A rotation lock older than this was left behind by a crashed instance
+const LOCK_STALE_MS = 10000
+// Generation of files written before they had a header
+const LEGACY_GENERATION = "file"
+
+// Delivery to this instance's subscribers, shared by the implementations
+class LocalFanout {
+  private readonly history: RingBuffer<StoredPredictEvent>
+  private readonly listeners = new Set<PredictListener>()
+
+  constructor(historySize: number) {
+    this.history = new RingBuffer(historySize)
+  }
+
+  deliver(stored: StoredPredictEvent) {
+    this.history.push(stored)
+    this.listeners.forEach((listener) => {
+      // One broken subscriber (e.g. a stream closing) must not keep the event from the others
+      try {
+        listener(stored)
+      } catch (error) {
+        console.error("Error delivering prediction event:", error)
+      }
+    })
+  }
+
+  subscribe(listener: PredictListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  recent() {
+    return this.history.toArray()
+  }
+}
+
+export class MemoryBroker implements PredictBroker {
+  private readonly fanout: LocalFanout
+  // Numbering starts over with each process
+  private readonly epoch = randomUUID()
+  private lastId = 0
+
+  constructor(historySize = DEFAULT_HISTORY_SIZE) {
+    this.fanout = new LocalFanout(historySize)
+  }
+
+  async publish(event: PredictStreamEvent) {
+    this.fanout.deliver({ id: formatEventId(this.epoch, ++this.lastId), event })
+  }
+
+  subscribe(listener: PredictListener) {
+    return this.fanout.subscribe(listener)
+  }
+
+  recent() {
+    return this.fanout.recent()
+  }
+}
+
+// First line of every broker file; the generation is the epoch of the event ids in that file
+interface FileHeader {
+  generation: string
+}
+
+interface FileLine {
+  offset: number
+  text: string
+}
+
+function statOrNull(path: string) {
+  try {
+    return statSync(path)
+  } catch {
+    return null
+  }
+}
+
+function readRange(path: string, start: number, end: number) {
+  const buffer = Buffer.alloc(end - start)
+  const fd = openSync(path, "r")
+  try {
+    readSync(fd, buffer, 0, buffer.length, start)
+  } finally {
+    closeSync(fd)
+  }
+  return buffer
+}
+
+// Complete lines of `buffer`, read from the file at `start`; `next` is where the first incomplete line starts
+function splitLines(buffer: Buffer, start: number) {
+  const lines: FileLine[] = []
+  let lineStart = 0
+  for (let end = buffer.indexOf(10); end !== -1; end = buffer.indexOf(10, lineStart)) {
+    lines.push({ offset: start + lineStart, text: buffer.subarray(lineStart, end).toString("utf8") })
+    lineStart = end + 1
+  }
+  return { lines, next: start + lineStart }
+}
+
+// The last `count` complete lines of the first `size` bytes of a file, read backwards from the end
+function readLastLines(path: string, size: number, count: number) {
+  let start = size
+  let buffer = Buffer.alloc(0)
+  let newlines = 0
+  // One more newline than lines wanted, so the first line read is known to be complete
+  while (start > 0 && newlines <= count) {
+    const chunkStart = Math.max(0, start - FILE_READ_CHUNK_BYTES)
+    const chunk = readRange(path, chunkStart, start)
+    newlines += chunk.filter((byte) => byte === 10).length
+    buffer = Buffer.concat([chunk, buffer])
+    start = chunkStart
+  }
+  // Drop the partial line the backwards read started in
+  const skip = start > 0 ? buffer.indexOf(10) + 1 : 0
+  const { lines, next } = splitLines(buffer.subarray(skip), start + skip)
+  return { lines: lines.slice(-count), next }
+}
+
+function parseHeader(line: FileLine): FileHeader | null {
+  if (line.offset !== 0) return null
+  try {
+    const header = JSON.parse(line.text)
+    return typeof header.generation === "string" ? header : null
+  } catch {
+    return null
+  }
+}
+
+function readGeneration(path: string) {
+  const { lines } = splitLines(readRange(path, 0, Math.min(statOrNull(path)?.size ?? 0, FILE_READ_CHUNK_BYTES)), 0)
+  return (lines[0] && parseHeader(lines[0])?.generation) ?? LEGACY_GENERATION
+}
+
+function errorCode(error: unknown) {
+  return (error as NodeJS.ErrnoException).code
+}
+
+/**
+ * Broker for several instances on one host: events are appended to a JSON-lines file that every instance polls.
+ *
+ * - An event's id is the byte offset of its line, under the generation written in the file's first line. It is the
+ *   same in every instance and increases without any coordination between writers.
+ * - Once the file passes `maxFileBytes` it is renamed to `<path>.1` (replacing the previous one) and a new generation
+ *   starts, so at most about twice that is kept on disk.
+ * - A new instance only reads the last `historySize` events, from the end of the file (and of `<path>.1`).
+ */
+export class FileBroker implements PredictBroker {
+  private readonly fanout: LocalFanout
+  private readonly rotatedPath: string
+  private readonly lockPath: string
+  private generation = LEGACY_GENERATION
+  // File being read, to notice when it has been rotated
+  private ino: number | null = null
+  // Where the next unread line starts
+  private offset = 0
+
+  constructor(
+    private readonly path: string,
+    historySize = DEFAULT_HISTORY_SIZE,
+    private readonly maxFileBytes = DEFAULT_MAX_FILE_BYTES,
+  ) {
+    this.fanout = new LocalFanout(historySize)
+    this.rotatedPath = `${path}.1`
+    this.lockPath = `${path}.lock`
+    // Events from before this instance started only fill the history
+    this.loadHistory(historySize)
+    watchFile(path, { interval: FILE_POLL_MS }, () => this.readNewLines())
+  }
+
+  async publish(event: PredictStreamEvent) {
+    await this.append(`${JSON.stringify(event)}\n`)
+    // Our own subscribers shouldn't wait for the next poll
+    this.readNewLines()
+    this.rotateIfFull()
+  }
+
+  subscribe(listener: PredictListener) {
+    return this.fanout.subscribe(listener)
+  }
+
+  recent() {
+    return this.fanout.recent()
+  }
+
+  // Stops polling the file
+  close() {
+    unwatchFile(this.path)
+  }
+
+  private loadHistory(historySize: number) {
+    const current = statOrNull(this.path)
+    const generation = current ? readGeneration(this.path) : LEGACY_GENERATION
+    const tail = current ? readLastLines(this.path, current.size, historySize) : { lines: [], next: 0 }
+    const events = this.toEvents(tail.lines, generation)
+
+    // Topped up from the rotated file when the current one is still short
+    const rotated = statOrNull(this.rotatedPath)
+    const missing = historySize - events.length
+    const older =
+      rotated && missing > 0
+        ? this.toEvents(readLastLines(this.rotatedPath, rotated.size, missing).lines, readGeneration(this.rotatedPath))
+        : []
+
+    const history = [...older, ...events].slice(-historySize)
+    history.forEach((stored) => this.fanout.deliver(stored))
+    if (current) {
+      this.ino = current.ino
+      this.offset = tail.next
+      this.generation = generation
+    }
+  }
+
+  private toEvents(lines: FileLine[], generation: string): StoredPredictEvent[] {
+    return lines.flatMap((line) => {
+      if (parseHeader(line)) return []
+      try {
+        return [{ id: formatEventId(generation, line.offset + 1), event: JSON.parse(line.text) }]
+      } catch (error) {
+        console.error("Skipping unreadable prediction event:", error)
+        return []
+      }
+    })
+  }
+
+  // Appends of a single line don't interleave between processes
+  private async append(line: string) {
+    for (;;) {
+      try {
+        // Without O_CREAT: a missing file has to start with a header
+        await appendFile(this.path, line, { flag: constants.O_APPEND | constants.O_WRONLY })
+        return
+      } catch (error) {
+        if (errorCode(error) !== "ENOENT") throw error
+      }
+      try {
+        const header: FileHeader = { generation: randomUUID() }
+        await writeFile(this.path, `${JSON.stringify(header)}\n`, { flag: "wx" })
+      } catch (error) {
+        // Another instance created it first
+        if (errorCode(error) !== "EEXIST") throw error
+      }
+    }
+  }
+
+  private rotateIfFull() {
+    if ((statOrNull(this.path)?.size ?? 0) < this.maxFileBytes) return
+    let lock: number
+    try {
+      lock = openSync(this.lockPath, "wx")
+    } catch {
+      // Another instance is rotating; a lock left behind by a crashed one is cleared once stale
+      const lockStat = statOrNull(this.lockPath)
+      if (lockStat && Date.now() - lockStat.mtimeMs > LOCK_STALE_MS) rmSync(this.lockPath, { force: true })
+      return
+    }
+    try {
+      if ((statOrNull(this.path)?.size ?? 0) >= this.maxFileBytes) renameSync(this.path, this.rotatedPath)
+    } finally {
+      closeSync(lock)
+      rmSync(this.lockPath, { force: true })
+    }
+  }
+
+  private readNewLines() {
+    const current = statOrNull(this.path)
+    if (current?.ino !== this.ino) {
+      // Finish the old file first; it is at the rotated path unless rotated again since
+      const rotated = statOrNull(this.rotatedPath)
+      if (this.ino !== null && rotated?.ino === this.ino) this.readFrom(this.rotatedPath, rotated.size)
+      // Rotated, and no event appended since
+      if (!current) return
+      this.ino = current.ino
+      this.offset = 0
+      this.generation = LEGACY_GENERATION
+    }
+    this.readFrom(this.path, current.size)
+  }
+
+  private readFrom(path: string, size: number) {
+    if (size <= this.offset) return
+    const { lines, next } = splitLines(readRange(path, this.offset, size), this.offset)
+    const header = lines[0] && parseHeader(lines[0])
+    if (header) this.generation = header.generation
+    this.toEvents(lines, this.generation).forEach((stored) => this.fanout.deliver(stored))
+    // A line still being written is read on the next poll
+    this.offset = next
+  }
+}
+
+function createPredictBroker(): PredictBroker {
+  const historySize = Number(process.env.PREDICT_STREAM_HISTORY_SIZE) || DEFAULT_HISTORY_SIZE
+  switch (process.env.PREDICT_BROKER) {
+    case "file":
+      return new FileBroker(
+        process.env.PREDICT_BROKER_FILE || join(tmpdir(), "label-platform-predict-events.jsonl"),
+        historySize,
+        Number(process.env.PREDICT_BROKER_MAX_FILE_BYTES) || DEFAULT_MAX_FILE_BYTES,
+      )
+    case undefined:
+    case "":
+    case "memory":
+      return new MemoryBroker(historySize)
+    default:
+      throw new Error(`Unknown PREDICT_BROKER "${process.env.PREDICT_BROKER}"`)
+  }
+}
+
+// Kept on globalThis so hot reloads in development don't strand the open streams on a discarded broker
+const globalBroker = globalThis as typeof globalThis & { predictBroker?: PredictBroker }
+
+export function getPredictBroker() {
+  globalBroker.predictBroker ??= createPredictBroker()
+  return globalBroker.predictBroker
+}
@@ -0,0 +1,102 @@
+// Events of the prediction stream (/webhook/predict) and the filters a subscriber opens it with
+
+export const PREDICT_STREAM_PATH = "/webhook/predict"
+
+export const PREDICT_EVENT_TYPES = ["queued", "started", "progress", "completed", "failed", "rate_limited"] as const
+
+export type PredictEventType = (typeof PREDICT_EVENT_TYPES)[number]
+
+// Where a model run on an image stands, as reported by the backend's webhook and passed on to the browsers as is
+export type PredictStreamEvent = { image_id: string; model: string } & (
+  | { type: "queued" }
+  | { type: "started" }
+  // `progress` goes from 0 to 1
+  | { type: "progress"; progress: number }
+  | { type: "completed"; element_count: number; latency_ms: number }
+  | { type: "failed"; error: string }
+  | { type: "rate_limited"; retry_after_seconds: number }
+)
+
+// e.g. "12 elements in 3.4s"
+export function describeCompletion(event: Extract<PredictStreamEvent, { type: "completed" }>) {
+  const elements = `${event.element_count} element${event.element_count !== 1 ? "s" : ""}`
+  return `${elements} in ${(event.latency_ms / 1000).toFixed(1)}s`
+}
+
+// Each list narrows the stream to the given values; a missing or empty list lets everything through
+export interface PredictStreamFilter {
+  imageIds?: string[]
+  models?: string[]
+  types?: PredictEventType[]
+}
+
+// Sent with every event so a reconnecting EventSource can ask for what it missed with Last-Event-ID.
+// The id is "<epoch>:<n>": `n` increases within an epoch, and a new epoch starts whenever numbering starts over
+// (a server restart), so ids of different epochs can't be compared.
+export interface StoredPredictEvent {
+  id: string
+  event: PredictStreamEvent
+}
+
+export function formatEventId(epoch: string, n: number) {
+  return `${epoch}:${n}`
+}
+
+function parseEventId(id: string) {
+  const separator = id.lastIndexOf(":")
+  return { epoch: id.slice(0, separator), n: Number(id.slice(separator + 1)) }
+}
+
+// How long a browser waits before reconnecting after the stream dropped
+export const PREDICT_STREAM_RETRY_MS = 3000
+
+export function formatStreamEvent({ id, event }: StoredPredictEvent) {
+  return `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Events to send again to a client reconnecting with `lastEventId`, oldest first: everything buffered after the last
+ * event the client has seen.
+ *
+ * When no buffered event is known to the client, because its epoch is over or it missed more than the buffer holds,
+ * everything buffered is sent.
+ */
+export function eventsToReplay(buffered: StoredPredictEvent[], lastEventId: string, filter: PredictStreamFilter) {
+  const last = parseEventId(lastEventId)
+  const seenIndex = buffered.findLastIndex(({ id }) => {
+    const { epoch, n } = parseEventId(id)
+    return epoch === last.epoch && n <= last.n
+  })
+  return buffered.slice(seenIndex + 1).filter(({ event }) => matchesPredictFilter(filter, event))
+}
+
+const PARAMS = { imageIds: "image_id", models: "model", types: "type" } as const
+
+// URL to open the stream with; `image_id=a&image_id=b` and `image_id=a,b` both work
+export function predictStreamUrl(filter: PredictStreamFilter = {}) {
+  const params = new URLSearchParams()
+  for (const [key, param] of Object.entries(PARAMS) as [keyof PredictStreamFilter, string][]) {
+    filter[key]?.forEach((value) => params.append(param, value))
+  }
+  const query = params.toString()
+  return query ? `${PREDICT_STREAM_PATH}?${query}` : PREDICT_STREAM_PATH
+}
+
+export function parsePredictStreamFilter(params: URLSearchParams): PredictStreamFilter {
+  const values = (param: string) =>
+    params
+      .getAll(param)
+      .flatMap((value) => value.split(","))
+      .map((value) => value.trim())
+      .filter(Boolean)
+  return {
+    imageIds: values(PARAMS.imageIds),
+    models: values(PARAMS.models),
+    types: values(PARAMS.types) as PredictEventType[],
+  }
+}
+
+export function matchesPredictFilter(filter: PredictStreamFilter, event: PredictStreamEvent) {
+  const allows = <T>(values: T[] | undefined, value: T) => !values?.length || values.includes(value)
+  return allows(filter.imageIds, event.image_id) && allows(filter.models, event.model) && allows(filter.types, event.type)
+}
@@ -0,0 +1,18 @@
+// Model predictions returned by /api/v1/images/{id}/predict/model
+
+import { fromGroundTruthElement, type Annotation, type GroundTruthElement } from "@/lib/annotations"
+import { findLabelByType, type Taxonomy } from "@/lib/taxonomy"
+
+export interface ModelPrediction {
+  elements: GroundTruthElement[]
+}
+
+// `predicted_labels` of an image, keyed by model name
+export type PredictedLabels = Record<string, ModelPrediction>
+
+// Boxes predicted by one model, labelled with the project's taxonomy (unknown types keep their backend name)
+export function predictionToAnnotations(prediction: ModelPrediction | undefined, taxonomy: Taxonomy): Annotation[] {
+  return (prediction?.elements ?? []).map((element, index) =>
+    fromGroundTruthElement(element, index, findLabelByType(taxonomy, element.type)?.name ?? element.type),
+  )
+}
@@ -0,0 +1,76 @@
+// What changed in the open project since it was last loaded or saved
+
+import { cleanAttributes, type Annotation, type ElementAttributes } from "@/lib/annotations"
+
+// The parts of a project that Save persists
+export interface ProjectSnapshot {
+  name: string
+  annotations: Annotation[]
+}
+
+export interface ChangeSummary {
+  // The project was created here and never saved
+  isNew: boolean
+  renamed: boolean
+  added: number
+  removed: number
+  // Moved, resized, relabeled, re-parented or with edited attributes
+  modified: number
+}
+
+// Attributes that differ only in empty values (e.g. `{}` and `{ extra: {} }`) are the same
+export function sameAttributes(a: ElementAttributes | undefined, b: ElementAttributes | undefined) {
+  return JSON.stringify(cleanAttributes(a) ?? {}) === JSON.stringify(cleanAttributes(b) ?? {})
+}
+
+// Same geometry, label, parent and attributes
+export function sameAnnotation(a: Annotation, b: Annotation) {
+  return (
+    a.x === b.x &&
+    a.y === b.y &&
+    a.width === b.width &&
+    a.height === b.height &&
+    a.label === b.label &&
+    a.parentId === b.parentId &&
+    sameAttributes(a.attributes, b.attributes)
+  )
+}
+
+// Boxes are matched by id; `saved` is null for a project that was never saved
+export function diffSnapshot(saved: ProjectSnapshot | null, current: ProjectSnapshot): ChangeSummary {
+  if (!saved) {
+    return { isNew: true, renamed: false, added: current.annotations.length, removed: 0, modified: 0 }
+  }
+
+  const before = new Map(saved.annotations.map((ann) => [ann.id, ann]))
+  const summary: ChangeSummary = { isNew: false, renamed: saved.name !== current.name, added: 0, removed: 0, modified: 0 }
+
+  for (const ann of current.annotations) {
+    const previous = before.get(ann.id)
+    if (!previous) summary.added++
+    else if (!sameAnnotation(previous, ann)) summary.modified++
+    before.delete(ann.id)
+  }
+  summary.removed = before.size
+
+  return summary
+}
+
+export function hasChanges(summary: ChangeSummary) {
+  return summary.isNew || summary.renamed || summary.added + summary.removed + summary.modified > 0
+}
+
+function boxes(count: number) {
+  return `${count} box${count !== 1 ? "es" : ""}`
+}
+
+// e.g. "3 boxes added, 1 box removed, 2 boxes changed"
+export function describeChanges(summary: ChangeSummary) {
+  const parts: string[] = []
+  if (summary.isNew) parts.push("new project, never saved")
+  if (summary.renamed) parts.push("renamed")
+  if (summary.added) parts.push(`${boxes(summary.added)} added`)
+  if (summary.removed) parts.push(`${boxes(summary.removed)} removed`)
+  if (summary.modified) parts.push(`${boxes(summary.modified)} changed`)
+  return parts.length > 0 ? parts.join(", ") : "No changes"
+}
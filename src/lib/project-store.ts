@@ -0,0 +1,146 @@
+// Browser storage of projects, autosaved drafts and the sync outbox in IndexedDB. Images are data: URLs of several
+// MB each, which quickly overflowed the ~5MB localStorage quota that projects used to be kept in.
+
+import type { Annotation, SavedProject } from "@/lib/annotations"
+import type { OutboxEntry } from "@/lib/outbox"
+import type { ProjectSnapshot } from "@/lib/project-changes"
+
+// Work in progress on the open project, written while there are unsaved changes
+export interface Draft {
+  projectId: string
+  name: string
+  image: string
+  annotations: Annotation[]
+  // Snapshot the draft differs from, so the restored project still shows what is unsaved (null: never saved)
+  baseline: ProjectSnapshot | null
+  savedAt: string
+}
+
+const DB_NAME = "ui-annotation"
+const DB_VERSION = 2
+const PROJECTS = "projects"
+const DRAFTS = "drafts"
+const OUTBOX = "outbox"
+// Where projects were kept before IndexedDB
+const LEGACY_STORAGE_KEY = "ui-annotation-projects"
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(PROJECTS, { keyPath: "id" })
+          request.result.createObjectStore(DRAFTS, { keyPath: "projectId" })
+        }
+        if (event.oldVersion < 2) {
+          request.result.createObjectStore(OUTBOX, { keyPath: "id" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        database = null
+        reject(request.error)
+      }
+    })
+  }
+  return database
+}
+
+// Runs `action` in a transaction on `storeName` and resolves with the request's result once the transaction commits
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function loadStoredProjects(): Promise<SavedProject[]> {
+  return (await withStore<SavedProject[]>(PROJECTS, "readonly", (store) => store.getAll())) ?? []
+}
+
+// Replaces every stored project with `projects`
+export async function saveStoredProjects(projects: SavedProject[]) {
+  await withStore(PROJECTS, "readwrite", (store) => {
+    store.clear()
+    projects.forEach((project) => store.put(project))
+  })
+}
+
+export async function deleteStoredProject(projectId: string) {
+  await withStore(PROJECTS, "readwrite", (store) => store.delete(projectId))
+}
+
+export async function saveDraft(draft: Draft) {
+  await withStore(DRAFTS, "readwrite", (store) => store.put(draft))
+}
+
+export async function deleteDraft(projectId: string) {
+  await withStore(DRAFTS, "readwrite", (store) => store.delete(projectId))
+}
+
+// Most recently written draft, if any was left behind
+export async function getLatestDraft(): Promise<Draft | null> {
+  const drafts = (await withStore<Draft[]>(DRAFTS, "readonly", (store) => store.getAll())) ?? []
+  return drafts.reduce<Draft | null>((latest, draft) => (!latest || draft.savedAt > latest.savedAt ? draft : latest), null)
+}
+
+// Queued backend changes, oldest first
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  const entries = (await withStore<OutboxEntry[]>(OUTBOX, "readonly", (store) => store.getAll())) ?? []
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+// Replaces the stored queue with `entries`
+export async function saveOutbox(entries: OutboxEntry[]) {
+  await withStore(OUTBOX, "readwrite", (store) => {
+    store.clear()
+    entries.forEach((entry) => store.put(entry))
+  })
+}
+
+/**
+ * Move projects saved by older versions from localStorage into IndexedDB.
+ *
+ * Projects already in IndexedDB win over their localStorage copy. The localStorage entry is removed afterwards so
+ * the migration runs once and the quota is freed.
+ */
+export async function migrateLegacyProjects(): Promise<number> {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (!saved) return 0
+
+  let legacy: SavedProject[] = []
+  try {
+    legacy = JSON.parse(saved)
+  } catch (error) {
+    console.error("Error reading legacy projects:", error)
+  }
+
+  const existing = new Set((await loadStoredProjects()).map((project) => project.id))
+  const migrated = legacy.filter((project) => !existing.has(project.id))
+  await withStore(PROJECTS, "readwrite", (store) => {
+    migrated.forEach((project) => store.put(project))
+  })
+  localStorage.removeItem(LEGACY_STORAGE_KEY)
+  return migrated.length
+}
+
+// "3 minutes ago"
+export function formatTimeAgo(iso: string, now = Date.now()) {
+  const seconds = Math.round((new Date(iso).getTime() - now) / 1000)
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" })
+  if (Math.abs(seconds) < 60) return format.format(seconds, "second")
+  if (Math.abs(seconds) < 3600) return format.format(Math.round(seconds / 60), "minute")
+  if (Math.abs(seconds) < 86400) return format.format(Math.round(seconds / 3600), "hour")
+  return format.format(Math.round(seconds / 86400), "day")
+}
@@ -0,0 +1,165 @@
+// Classical computer vision over a whole screenshot: edge map -> connected components -> rectangle filter.
+// Runs inside workers/region-proposals.worker.ts so large screenshots don't block the UI.
+
+import { calculateIoU } from "@/lib/evaluation"
+import type { PixelBox } from "@/lib/pixel-analysis"
+
+export interface RawImage {
+  width: number
+  height: number
+  // RGBA, 4 bytes per pixel (same layout as ImageData.data)
+  data: Uint8ClampedArray
+}
+
+export interface ProposalOptions {
+  // Minimum brightness step (0-255) between neighbors that counts as an edge
+  edgeThreshold?: number
+  minWidth?: number
+  minHeight?: number
+  // Regions wider/taller than this share of the image are page sections, not elements
+  maxShare?: number
+  // Share of a region's outline that must lie on edges for it to count as a rectangle
+  minBorderCoverage?: number
+}
+
+// Larger images are analyzed downsampled to roughly this many pixels
+const MAX_ANALYSIS_PIXELS = 4_000_000
+
+// Proposals overlapping more than this are considered duplicates
+const DUPLICATE_IOU = 0.7
+
+export function detectRegions(image: RawImage, options: ProposalOptions = {}): PixelBox[] {
+  const {
+    edgeThreshold = 24,
+    minWidth = 12,
+    minHeight = 8,
+    maxShare = 0.9,
+    minBorderCoverage = 0.6,
+  } = options
+
+  const scale = Math.max(1, Math.ceil(Math.sqrt((image.width * image.height) / MAX_ANALYSIS_PIXELS)))
+  const w = Math.floor(image.width / scale)
+  const h = Math.floor(image.height / scale)
+  if (w < 3 || h < 3) return []
+
+  // Luminance, sampled every `scale` pixels
+  const gray = new Float32Array(w * h)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = (y * scale * image.width + x * scale) * 4
+      gray[y * w + x] = 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]
+    }
+  }
+
+  // Edge map from central differences
+  const edges = new Uint8Array(w * h)
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x
+      const magnitude = Math.abs(gray[i + 1] - gray[i - 1]) + Math.abs(gray[i + w] - gray[i - w])
+      if (magnitude > edgeThreshold) edges[i] = 1
+    }
+  }
+
+  // Dilate by one pixel to close small gaps in outlines
+  const dilated = new Uint8Array(w * h)
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x
+      if (edges[i] || edges[i - 1] || edges[i + 1] || edges[i - w] || edges[i + w]) dilated[i] = 1
+    }
+  }
+
+  // Connected components (8-connected) of the dilated edge map
+  const visited = new Uint8Array(w * h)
+  const components: PixelBox[] = []
+  const stack: number[] = []
+  for (let start = 0; start < w * h; start++) {
+    if (!dilated[start] || visited[start]) continue
+    visited[start] = 1
+    stack.push(start)
+    let minX = w
+    let minY = h
+    let maxX = 0
+    let maxY = 0
+    while (stack.length > 0) {
+      const i = stack.pop()!
+      const x = i % w
+      const y = (i - x) / w
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx
+          const ny = y + dy
+          if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue
+          const n = ny * w + nx
+          if (dilated[n] && !visited[n]) {
+            visited[n] = 1
+            stack.push(n)
+          }
+        }
+      }
+    }
+    components.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 })
+  }
+
+  // Keep components whose bounding box outline is (mostly) made of edges, i.e. rectangles
+  const hasEdgeNear = (x: number, y: number) => {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx
+        const ny = y + dy
+        if (nx >= 0 && ny >= 0 && nx < w && ny < h && dilated[ny * w + nx]) return true
+      }
+    }
+    return false
+  }
+  const borderCoverage = (box: PixelBox) => {
+    const right = box.x + box.width - 1
+    const bottom = box.y + box.height - 1
+    let hits = 0
+    let total = 0
+    for (let x = box.x; x <= right; x++) {
+      total += 2
+      if (hasEdgeNear(x, box.y)) hits++
+      if (hasEdgeNear(x, bottom)) hits++
+    }
+    for (let y = box.y + 1; y < bottom; y++) {
+      total += 2
+      if (hasEdgeNear(box.x, y)) hits++
+      if (hasEdgeNear(right, y)) hits++
+    }
+    return total === 0 ? 0 : hits / total
+  }
+
+  const candidates: (PixelBox & { score: number })[] = []
+  for (const component of components) {
+    // Undo the 1px growth from dilation and map back to full resolution
+    const box = {
+      x: (component.x + 1) * scale,
+      y: (component.y + 1) * scale,
+      width: Math.max(1, component.width - 2) * scale,
+      height: Math.max(1, component.height - 2) * scale,
+    }
+    if (box.width < minWidth || box.height < minHeight) continue
+    if (box.width > image.width * maxShare && box.height > image.height * maxShare) continue
+
+    const score = borderCoverage(component)
+    if (score >= minBorderCoverage) candidates.push({ ...box, score })
+  }
+
+  // Drop near-duplicates, preferring the cleaner rectangle
+  candidates.sort((a, b) => b.score - a.score)
+  const kept: PixelBox[] = []
+  for (const candidate of candidates) {
+    if (kept.every((box) => calculateIoU(box, candidate) < DUPLICATE_IOU)) {
+      kept.push({ x: candidate.x, y: candidate.y, width: candidate.width, height: candidate.height })
+    }
+  }
+
+  // Reading order: top to bottom, then left to right
+  return kept.sort((a, b) => a.y - b.y || a.x - b.x)
+}
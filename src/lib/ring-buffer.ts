@@ -0,0 +1,22 @@
+// Fixed-size buffer keeping the latest `capacity` items; pushing onto a full buffer overwrites the oldest
+export class RingBuffer<T> {
+  private readonly items: T[] = []
+  // Index of the oldest item once the buffer is full
+  private start = 0
+
+  constructor(readonly capacity: number) {}
+
+  push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item)
+      return
+    }
+    this.items[this.start] = item
+    this.start = (this.start + 1) % this.capacity
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)]
+  }
+}
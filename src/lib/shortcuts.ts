@@ -0,0 +1,134 @@
+// Keyboard shortcuts of the annotator (/main): the available actions, their default keys and the user's remapping
+
+export type ShortcutAction =
+  | "undo"
+  | "redo"
+  | "copy"
+  | "paste"
+  | "deleteSelection"
+  | "cancel"
+  | "toggleMagic"
+  | "findRegions"
+  | "fitToScreen"
+  | "togglePredictions"
+  | "save"
+  | "updateGroundTruth"
+  | "predict"
+  | "export"
+  | "nextImage"
+  | "previousImage"
+  | "nextUnlabeled"
+  | "toggleReviewed"
+  | "showShortcuts"
+
+export interface ShortcutDefinition {
+  action: ShortcutAction
+  description: string
+  group: "Editing" | "Canvas" | "Project" | "Help"
+  defaultKeys: string[]
+}
+
+// Key combos are written as "mod+shift+z": modifiers first (mod = Ctrl, or Cmd on macOS), then the key
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: "undo", description: "Undo", group: "Editing", defaultKeys: ["mod+z"] },
+  { action: "redo", description: "Redo", group: "Editing", defaultKeys: ["mod+shift+z", "mod+y"] },
+  { action: "copy", description: "Copy selected boxes", group: "Editing", defaultKeys: ["mod+c"] },
+  { action: "paste", description: "Paste boxes", group: "Editing", defaultKeys: ["mod+v"] },
+  { action: "deleteSelection", description: "Delete selected boxes", group: "Editing", defaultKeys: ["delete", "backspace"] },
+  { action: "cancel", description: "Cancel drawing or dragging", group: "Canvas", defaultKeys: ["escape"] },
+  { action: "toggleMagic", description: "Toggle magic box tool", group: "Canvas", defaultKeys: ["m"] },
+  { action: "findRegions", description: "Find candidate regions", group: "Canvas", defaultKeys: ["r"] },
+  { action: "fitToScreen", description: "Fit image to screen", group: "Canvas", defaultKeys: ["f"] },
+  { action: "togglePredictions", description: "Show or hide model predictions", group: "Canvas", defaultKeys: ["l"] },
+  { action: "save", description: "Save project", group: "Project", defaultKeys: ["s"] },
+  { action: "updateGroundTruth", description: "Update ground truth on server", group: "Project", defaultKeys: ["shift+s"] },
+  { action: "predict", description: "Request prediction", group: "Project", defaultKeys: ["p"] },
+  { action: "export", description: "Export annotations", group: "Project", defaultKeys: ["e"] },
+  { action: "nextImage", description: "Next image", group: "Project", defaultKeys: ["n"] },
+  { action: "previousImage", description: "Previous image", group: "Project", defaultKeys: ["shift+n"] },
+  { action: "nextUnlabeled", description: "Next unlabeled image in dataset", group: "Project", defaultKeys: ["u"] },
+  { action: "toggleReviewed", description: "Mark image as reviewed", group: "Project", defaultKeys: ["shift+r"] },
+  { action: "showShortcuts", description: "Show keyboard shortcuts", group: "Help", defaultKeys: ["?"] },
+]
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>
+
+// Also fires the browser's paste event, the only place the system clipboard (e.g. a screenshot) can be read
+export const NATIVE_PASTE_COMBO = "mod+v"
+
+const STORAGE_KEY = "ui-annotation-shortcuts"
+
+const MODIFIER_KEYS = new Set(["control", "meta", "shift", "alt", "altgraph", "capslock"])
+
+export function getDefaultBindings(): ShortcutBindings {
+  return Object.fromEntries(SHORTCUTS.map((def) => [def.action, def.defaultKeys])) as ShortcutBindings
+}
+
+// The combo a key press stands for, or null for a lone modifier press
+export function eventToCombo(event: KeyboardEvent): string | null {
+  const key = event.key === " " ? "space" : event.key.toLowerCase()
+  if (MODIFIER_KEYS.has(key)) return null
+
+  const parts: string[] = []
+  if (event.ctrlKey || event.metaKey) parts.push("mod")
+  if (event.altKey) parts.push("alt")
+  // For symbols Shift is already part of the character ("?" is Shift+/), so it only counts for letters and named keys
+  if (event.shiftKey && (key.length > 1 || /^[a-z]$/.test(key))) parts.push("shift")
+  parts.push(key)
+  return parts.join("+")
+}
+
+// Human readable form, e.g. "mod+shift+z" -> "Ctrl+Shift+Z"
+export function formatCombo(combo: string) {
+  return combo
+    .split("+")
+    .map((part) => (part === "mod" ? "Ctrl" : part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join("+")
+}
+
+// First key of an action for button tooltips, e.g. "Save (S)"
+export function shortcutHint(bindings: ShortcutBindings, action: ShortcutAction) {
+  const combo = bindings[action][0]
+  return combo ? ` (${formatCombo(combo)})` : ""
+}
+
+// Returns an error message, or null when the bindings can be saved. `reserved` are keys taken elsewhere (label hotkeys).
+export function validateBindings(bindings: ShortcutBindings, reserved: Record<string, string> = {}): string | null {
+  const used = new Map<string, string>()
+  for (const def of SHORTCUTS) {
+    for (const combo of bindings[def.action]) {
+      if (reserved[combo]) return `${formatCombo(combo)} is the hotkey of label "${reserved[combo]}".`
+      const other = used.get(combo)
+      if (other) return `${formatCombo(combo)} is assigned to both "${other}" and "${def.description}".`
+      used.set(combo, def.description)
+    }
+  }
+  return null
+}
+
+export function loadShortcutBindings(): ShortcutBindings {
+  const bindings = getDefaultBindings()
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const overrides: Partial<ShortcutBindings> = saved ? JSON.parse(saved) : {}
+    // Ignore actions that no longer exist; new actions keep their defaults
+    for (const def of SHORTCUTS) {
+      const keys = overrides[def.action]
+      if (Array.isArray(keys)) bindings[def.action] = keys
+    }
+  } catch (error) {
+    console.error("Error loading shortcuts:", error)
+  }
+  return bindings
+}
+
+// Only remapped actions are stored, so changed defaults reach users who never touched them
+export function saveShortcutBindings(bindings: ShortcutBindings) {
+  const overrides = Object.fromEntries(
+    SHORTCUTS.filter((def) => bindings[def.action].join(" ") !== def.defaultKeys.join(" ")).map((def) => [
+      def.action,
+      bindings[def.action],
+    ]),
+  )
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides))
+}
@@ -0,0 +1,171 @@
+// Per-project label taxonomy: which labels exist, how they look and how they map to the backend
+
+import { fromGroundTruthElement, toGroundTruthElement, type Annotation, type GroundTruthElement } from "@/lib/annotations"
+
+export interface LabelDefinition {
+  // Stable identity so a label can be renamed without losing its annotations
+  id: string
+  name: string
+  // Hex color, e.g. "#3b82f6"
+  color: string
+  // Single key that selects this label in the annotator
+  hotkey?: string
+  // Element `type` string used in the backend's ground_truth.elements
+  type: string
+  // Boxes with this label can contain other boxes (forms, groups, cards...)
+  container?: boolean
+}
+
+export type Taxonomy = LabelDefinition[]
+
+const STORAGE_KEY = "ui-annotation-taxonomies"
+
+export const FALLBACK_LABEL_COLOR = "#6b7280"
+
+// Colors handed out to newly added labels, in order
+export const LABEL_PALETTE = [
+  "#3b82f6",
+  "#22c55e",
+  "#a855f7",
+  "#f97316",
+  "#ef4444",
+  "#14b8a6",
+  "#eab308",
+  "#ec4899",
+  "#6366f1",
+  "#84cc16",
+  "#06b6d4",
+  "#f43f5e",
+]
+
+export const DEFAULT_TAXONOMY: Taxonomy = [
+  { id: "button", name: "Button", color: "#3b82f6", hotkey: "1", type: "button" },
+  { id: "input", name: "Input", color: "#22c55e", hotkey: "2", type: "input" },
+  { id: "radio", name: "Radio", color: "#a855f7", hotkey: "3", type: "radio" },
+  { id: "drop", name: "Drop", color: "#f97316", hotkey: "4", type: "drop" },
+  { id: "form", name: "Form", color: "#64748b", hotkey: "5", type: "form", container: true },
+  { id: "group", name: "Group", color: "#0ea5e9", hotkey: "6", type: "group", container: true },
+  { id: "card", name: "Card", color: "#d946ef", hotkey: "7", type: "card", container: true },
+]
+
+export function createLabelId() {
+  return `label-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`
+}
+
+export function findLabel(taxonomy: Taxonomy, name: string) {
+  return taxonomy.find((def) => def.name === name)
+}
+
+export function findLabelByType(taxonomy: Taxonomy, type: string) {
+  return taxonomy.find((def) => def.type === type)
+}
+
+export function isContainerLabel(taxonomy: Taxonomy, name: string) {
+  return !!findLabel(taxonomy, name)?.container
+}
+
+export function getLabelColor(taxonomy: Taxonomy, name: string) {
+  return findLabel(taxonomy, name)?.color ?? FALLBACK_LABEL_COLOR
+}
+
+// "#3b82f6" -> "rgba(59, 130, 246, 0.1)"
+export function hexToRgba(hex: string, alpha: number) {
+  const value = hex.replace("#", "")
+  const full = value.length === 3 ? value.split("").map((c) => c + c).join("") : value
+  const num = parseInt(full, 16)
+  if (Number.isNaN(num)) return `rgba(107, 114, 128, ${alpha})`
+  return `rgba(${(num >> 16) & 255}, ${(num >> 8) & 255}, ${num & 255}, ${alpha})`
+}
+
+// Striped fill drawn inside a box of the given color
+export function labelStripes(color: string, alpha = 0.1) {
+  const tint = hexToRgba(color, alpha)
+  return `repeating-linear-gradient(45deg, transparent, transparent 4px, ${tint} 4px, ${tint} 8px)`
+}
+
+// Boxes as the backend stores them; labels missing from the taxonomy go by their lowercased name
+export function toGroundTruthElements(annotations: Annotation[], taxonomy: Taxonomy): GroundTruthElement[] {
+  return annotations.map((ann) => toGroundTruthElement(ann, findLabel(taxonomy, ann.label)?.type ?? ann.label.toLowerCase()))
+}
+
+// Boxes of stored elements; types missing from the taxonomy get its first label (see `ensureTypes` to avoid that)
+export function fromGroundTruthElements(elements: GroundTruthElement[], taxonomy: Taxonomy): Annotation[] {
+  return elements.map((el, idx) => fromGroundTruthElement(el, idx, findLabelByType(taxonomy, el.type)?.name ?? taxonomy[0].name))
+}
+
+// Add a label for every backend type the taxonomy doesn't know yet, so loaded data is never mislabeled
+export function ensureTypes(taxonomy: Taxonomy, types: string[]): Taxonomy {
+  const next = [...taxonomy]
+  for (const type of types) {
+    if (!type || findLabelByType(next, type)) continue
+    next.push({
+      id: createLabelId(),
+      name: type.charAt(0).toUpperCase() + type.slice(1),
+      color: LABEL_PALETTE[next.length % LABEL_PALETTE.length],
+      type,
+    })
+  }
+  return next.length === taxonomy.length ? taxonomy : next
+}
+
+// Returns an error message, or null when the taxonomy can be saved. `reserved` are keys taken elsewhere (shortcuts).
+export function validateTaxonomy(taxonomy: Taxonomy, reserved: Record<string, string> = {}): string | null {
+  if (taxonomy.length === 0) return "Add at least one label."
+
+  const names = new Set<string>()
+  const types = new Set<string>()
+  const hotkeys = new Set<string>()
+  for (const def of taxonomy) {
+    const name = def.name.trim()
+    const type = def.type.trim()
+    if (!name) return "Every label needs a name."
+    if (!type) return `Label "${name}" needs a backend type.`
+    if (names.has(name)) return `Label "${name}" is defined twice.`
+    if (types.has(type)) return `Backend type "${type}" is used by more than one label.`
+    names.add(name)
+    types.add(type)
+    if (def.hotkey) {
+      const taken = reserved[def.hotkey.toLowerCase()]
+      if (taken) return `Hotkey "${def.hotkey}" is already the shortcut for "${taken}".`
+      if (hotkeys.has(def.hotkey)) return `Hotkey "${def.hotkey}" is assigned to more than one label.`
+      hotkeys.add(def.hotkey)
+    }
+  }
+  return null
+}
+
+function readAll(): Record<string, Taxonomy> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : {}
+  } catch (error) {
+    console.error("Error loading taxonomies:", error)
+    return {}
+  }
+}
+
+export function loadTaxonomy(projectId: string | null): Taxonomy {
+  if (!projectId) return DEFAULT_TAXONOMY
+  return readAll()[projectId] ?? DEFAULT_TAXONOMY
+}
+
+export function saveTaxonomy(projectId: string, taxonomy: Taxonomy) {
+  const all = readAll()
+  all[projectId] = taxonomy
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all))
+}
+
+export function deleteTaxonomy(projectId: string) {
+  const all = readAll()
+  delete all[projectId]
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all))
+}
+
+// Keeps a project's labels when its id changes, e.g. to the server's id after an upload
+export function moveTaxonomy(fromId: string, toId: string) {
+  const all = readAll()
+  if (!all[fromId]) return
+  all[toId] = all[fromId]
+  delete all[fromId]
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all))
+}
@@ -0,0 +1,28 @@
+// Zoom and pan of an image drawn on a canvas, shared by the annotator and the comparison view
+
+export const MIN_ZOOM = 0.05
+export const MAX_ZOOM = 32
+// Factor of one zoom button click or wheel notch
+export const ZOOM_STEP = 1.25
+
+// Screen position of the image inside the canvas: screen = pan + image * zoom
+export interface ViewTransform {
+  zoom: number
+  pan: { x: number; y: number }
+}
+
+export function clampZoom(zoom: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+}
+
+// `view` zoomed to `zoom` (clamped) so that the image point under `anchor` (canvas px) stays where it is
+export function zoomAround(view: ViewTransform, zoom: number, anchor: { x: number; y: number }): ViewTransform {
+  const next = clampZoom(zoom)
+  return {
+    zoom: next,
+    pan: {
+      x: anchor.x - ((anchor.x - view.pan.x) / view.zoom) * next,
+      y: anchor.y - ((anchor.y - view.pan.y) / view.zoom) * next,
+    },
+  }
+}
@@ -0,0 +1,214 @@
+// Checks on incoming prediction webhooks: body size, HMAC signature, timestamp and payload schema.
+//
+// The backend signs each call with a secret shared with the UI server:
+//
+//   X-Webhook-Timestamp: <unix seconds>
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+//
+// Configured with PREDICT_WEBHOOK_SECRET (required), PREDICT_WEBHOOK_TOLERANCE_SECONDS (default 300) and
+// PREDICT_WEBHOOK_MAX_BODY_BYTES (default 64 KB).
+
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { PREDICT_EVENT_TYPES, type PredictEventType, type PredictStreamEvent } from "@/lib/predict-stream"
+
+export const SIGNATURE_HEADER = "x-webhook-signature"
+export const TIMESTAMP_HEADER = "x-webhook-timestamp"
+
+const DEFAULT_TOLERANCE_SECONDS = 300
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024
+const MAX_FIELD_LENGTH = 256
+// Model errors can carry a stack trace
+const MAX_ERROR_LENGTH = 4096
+
+export interface WebhookConfig {
+  secret: string | null
+  // How far the timestamp may be from the server's clock, either way
+  toleranceSeconds: number
+  maxBodyBytes: number
+}
+
+export type WebhookErrorCode =
+  | "not_configured"
+  | "missing_signature"
+  | "invalid_signature"
+  | "stale_timestamp"
+  | "replayed"
+  | "payload_too_large"
+  | "invalid_json"
+  | "invalid_payload"
+
+// A field of the payload that failed validation
+export interface FieldError {
+  field: string
+  message: string
+}
+
+// Rejection of a webhook call, sent back as `{ error: { code, message, details? } }`
+export class WebhookError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: WebhookErrorCode,
+    message: string,
+    readonly details?: FieldError[],
+  ) {
+    super(message)
+    this.name = "WebhookError"
+  }
+
+  toResponse() {
+    return Response.json(
+      { error: { code: this.code, message: this.message, ...(this.details && { details: this.details }) } },
+      { status: this.status },
+    )
+  }
+}
+
+function positiveNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Read on every call so a changed environment applies without a rebuild
+export function getWebhookConfig(): WebhookConfig {
+  return {
+    secret: process.env.PREDICT_WEBHOOK_SECRET || null,
+    toleranceSeconds: positiveNumber(process.env.PREDICT_WEBHOOK_TOLERANCE_SECONDS, DEFAULT_TOLERANCE_SECONDS),
+    maxBodyBytes: positiveNumber(process.env.PREDICT_WEBHOOK_MAX_BODY_BYTES, DEFAULT_MAX_BODY_BYTES),
+  }
+}
+
+// Value of the signature header for `body` sent at `timestamp`
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+}
+
+// Reads the raw body, giving up as soon as it grows past `maxBytes` instead of buffering all of it
+export async function readBodyWithLimit(request: Request, maxBytes: number): Promise<string> {
+  const tooLarge = () => new WebhookError(413, "payload_too_large", `Body exceeds ${maxBytes} bytes`)
+  if (Number(request.headers.get("content-length")) > maxBytes) throw tooLarge()
+  if (!request.body) return ""
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString("utf8")
+}
+
+// Signatures accepted within the tolerance window, so a captured call can't be sent again
+const seenSignatures = new Map<string, number>()
+
+function rememberSignature(signature: string, expiresAt: number, now: number) {
+  for (const [seen, expiry] of seenSignatures) {
+    if (expiry <= now) seenSignatures.delete(seen)
+  }
+  if (seenSignatures.has(signature)) {
+    throw new WebhookError(401, "replayed", "This webhook call was already received")
+  }
+  seenSignatures.set(signature, expiresAt)
+}
+
+/**
+ * Check that `body` was signed with the shared secret within the last `toleranceSeconds`, and was not received before.
+ *
+ * Throws a `WebhookError` (401, or 500 when no secret is configured) otherwise.
+ */
+export function verifyWebhookSignature(headers: Headers, body: string, config: WebhookConfig, now = Date.now()) {
+  if (!config.secret) {
+    throw new WebhookError(500, "not_configured", "PREDICT_WEBHOOK_SECRET is not set on the server")
+  }
+
+  const signature = headers.get(SIGNATURE_HEADER)
+  const timestamp = headers.get(TIMESTAMP_HEADER)
+  if (!signature || !timestamp) {
+    throw new WebhookError(401, "missing_signature", `${SIGNATURE_HEADER} and ${TIMESTAMP_HEADER} headers are required`)
+  }
+
+  const sentAt = Number(timestamp) * 1000
+  if (!/^\d+$/.test(timestamp) || Math.abs(now - sentAt) > config.toleranceSeconds * 1000) {
+    throw new WebhookError(401, "stale_timestamp", `Timestamp is more than ${config.toleranceSeconds}s away from now`)
+  }
+
+  const expected = Buffer.from(signWebhookPayload(config.secret, timestamp, body))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new WebhookError(401, "invalid_signature", "Signature does not match the body")
+  }
+
+  rememberSignature(signature, sentAt + config.toleranceSeconds * 1000, now)
+}
+
+// Returns what is wrong with a value, or null when it is valid
+type FieldCheck = (value: unknown) => string | null
+
+const nonEmptyString =
+  (maxLength = MAX_FIELD_LENGTH): FieldCheck =>
+  (value) => {
+    if (typeof value !== "string" || !value.trim()) return "must be a non-empty string"
+    return value.length > maxLength ? `must be at most ${maxLength} characters` : null
+  }
+const nonNegativeInteger: FieldCheck = (value) =>
+  Number.isInteger(value) && (value as number) >= 0 ? null : "must be a non-negative integer"
+const nonNegativeNumber: FieldCheck = (value) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? null : "must be a non-negative number"
+const fraction: FieldCheck = (value) =>
+  typeof value === "number" && value >= 0 && value <= 1 ? null : "must be a number between 0 and 1"
+
+const COMMON_FIELDS: Record<string, FieldCheck> = { image_id: nonEmptyString(), model: nonEmptyString() }
+
+// Fields each event type carries besides `type`, `image_id` and `model`; all are required
+const EVENT_FIELDS: Record<PredictEventType, Record<string, FieldCheck>> = {
+  queued: {},
+  started: {},
+  progress: { progress: fraction },
+  completed: { element_count: nonNegativeInteger, latency_ms: nonNegativeNumber },
+  failed: { error: nonEmptyString(MAX_ERROR_LENGTH) },
+  rate_limited: { retry_after_seconds: nonNegativeNumber },
+}
+
+/**
+ * Parse and validate a webhook body against the fields of its `type`. Unknown fields are rejected too.
+ *
+ * Throws a 400 `WebhookError` listing every problem.
+ */
+export function parsePredictPayload(body: string): PredictStreamEvent {
+  let payload: unknown
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    throw new WebhookError(400, "invalid_json", "Body is not valid JSON")
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new WebhookError(400, "invalid_payload", "Body must be a JSON object")
+  }
+
+  const record = payload as Record<string, unknown>
+  const type = record.type as PredictEventType
+  if (!PREDICT_EVENT_TYPES.includes(type)) {
+    throw new WebhookError(400, "invalid_payload", "Payload failed validation", [
+      { field: "type", message: `must be one of ${PREDICT_EVENT_TYPES.join(", ")}` },
+    ])
+  }
+
+  const fields = { ...COMMON_FIELDS, ...EVENT_FIELDS[type] }
+  const errors: FieldError[] = []
+  for (const [field, check] of Object.entries(fields)) {
+    const message = check(record[field])
+    if (message) errors.push({ field, message })
+  }
+  for (const field of Object.keys(record)) {
+    if (field !== "type" && !(field in fields)) errors.push({ field, message: "is not allowed" })
+  }
+  if (errors.length > 0) throw new WebhookError(400, "invalid_payload", "Payload failed validation", errors)
+
+  return record as PredictStreamEvent
+}
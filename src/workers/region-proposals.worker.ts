@@ -0,0 +1,24 @@
+// Runs detectRegions off the main thread; one request in, one response out.
+
+import { detectRegions, type ProposalOptions, type RawImage } from "@/lib/region-proposals"
+import type { PixelBox } from "@/lib/pixel-analysis"
+
+export interface RegionProposalRequest {
+  image: RawImage
+  options?: ProposalOptions
+}
+
+export type RegionProposalResponse = { boxes: PixelBox[] } | { error: string }
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<RegionProposalRequest>) => void) | null
+  postMessage: (message: RegionProposalResponse) => void
+}
+
+ctx.onmessage = (event) => {
+  try {
+    ctx.postMessage({ boxes: detectRegions(event.data.image, event.data.options) })
+  } catch (error) {
+    ctx.postMessage({ error: error instanceof Error ? error.message : String(error) })
+  }
+}